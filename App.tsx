@@ -1,30 +1,83 @@
 import { StatusBar } from 'expo-status-bar';
 import React, { useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { WorkoutProvider } from './src/contexts';
+import { AuthProvider, PreferencesProvider, useAuthContext, WorkoutProvider } from './src/contexts';
+import ExportScreen from './src/screens/ExportScreen';
 import HomeScreen from './src/screens/HomeScreen';
+import ImportScreen from './src/screens/ImportScreen';
 import SessionScreen from './src/screens/SessionScreen';
+import SignInScreen from './src/screens/SignInScreen';
 import SummaryScreen from './src/screens/SummaryScreen';
+import { colors } from './src/theme';
 
-export type Screen = 'home' | 'session' | 'summary';
+export type Screen = 'home' | 'session' | 'summary' | 'account' | 'export' | 'import';
 
-export default function App() {
+function AppContent() {
+  const { authEnabled, user, loading } = useAuthContext();
   const [currentScreen, setCurrentScreen] = useState<Screen>('home');
 
+  if (authEnabled && loading) {
+    return <View style={styles.loading} />;
+  }
+
+  if (authEnabled && !user) {
+    return <SignInScreen />;
+  }
+
   return (
-    <SafeAreaProvider>
-      <StatusBar style="light" />
+    // Keyed by user so everything reloads from the new account's device storage
+    // (see services/userStorage.ts) and a different account never sees the previous one's state
+    <PreferencesProvider key={user?.id ?? 'local'}>
       <WorkoutProvider>
         {currentScreen === 'home' && (
-          <HomeScreen onNavigate={() => setCurrentScreen('session')} />
+          <HomeScreen
+            onNavigate={() => setCurrentScreen('session')}
+            onOpenAccount={() => setCurrentScreen('account')}
+            onOpenExport={() => setCurrentScreen('export')}
+            onOpenImport={() => setCurrentScreen('import')}
+          />
         )}
         {currentScreen === 'session' && (
-          <SessionScreen onNavigate={() => setCurrentScreen('summary')} />
+          <SessionScreen onNavigate={() => setCurrentScreen('summary')} onLeave={() => setCurrentScreen('home')} />
         )}
         {currentScreen === 'summary' && (
           <SummaryScreen onNavigate={() => setCurrentScreen('home')} />
         )}
+        {currentScreen === 'account' && (
+          <SignInScreen onNavigate={() => setCurrentScreen('home')} />
+        )}
+        {currentScreen === 'export' && (
+          <ExportScreen onNavigate={() => setCurrentScreen('home')} />
+        )}
+        {currentScreen === 'import' && (
+          <ImportScreen onNavigate={() => setCurrentScreen('home')} />
+        )}
       </WorkoutProvider>
-    </SafeAreaProvider>
+    </PreferencesProvider>
   );
 }
+
+export default function App() {
+  return (
+    <GestureHandlerRootView style={styles.root}>
+      <SafeAreaProvider>
+        <StatusBar style="light" />
+        <AuthProvider>
+          <AppContent />
+        </AuthProvider>
+      </SafeAreaProvider>
+    </GestureHandlerRootView>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  loading: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+});
@@ -0,0 +1,122 @@
+import { commitWorkoutImport, previewWorkoutImport } from '../services/importService';
+import { createMemoryWorkoutRepository, setWorkoutRepository } from '../services/repositories';
+import type { WorkoutSet } from '../types/workout';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The native digest is not available under jest
+jest.mock('expo-crypto', () => ({
+  ...jest.requireActual('expo-crypto'),
+  digestStringAsync: async (_algorithm: string, data: string) =>
+    jest.requireActual<typeof import('crypto')>('crypto').createHash('sha256').update(data).digest('hex'),
+}));
+
+const STRONG_LB_CSV = [
+  'Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE',
+  '2023-01-15 08:30:00,Push,1h 5m,Bench Press (Barbell),1,185,5,0,0,,,',
+  '2023-01-15 08:30:00,Push,1h 5m,Bench Press (Barbell),2,185,5,0,0,,,',
+  '2023-01-15 08:30:00,Push,1h 5m,Cable Crossover,1,30,12,0,0,,,',
+  '2023-01-17 18:00:00,Legs,50m,Squat (Barbell),1,225,5,0,0,,,',
+].join('\n');
+
+const HEVY_KG_CSV = [
+  '"title","start_time","end_time","description","exercise_title","superset_id","exercise_notes","set_index","set_type","weight_kg","reps","distance_km","duration_seconds","rpe"',
+  '"Upper A","15 Jan 2023, 08:30","15 Jan 2023, 09:35","","Bench Press (Barbell)","","","0","normal","100","5","","","8"',
+].join('\n');
+
+function existingSet(overrides: Partial<WorkoutSet>): WorkoutSet {
+  return {
+    id: 1,
+    date: '2023-01-17',
+    loggedAt: '2023-01-17T18:00:00.000Z',
+    exerciseName: 'Squat',
+    weight: 205,
+    weightUnit: 'lb',
+    loadType: 'weighted',
+    reps: 5,
+    durationSeconds: null,
+    setNumber: 1,
+    setType: 'working',
+    rpe: null,
+    rir: null,
+    restSeconds: null,
+    userId: null,
+    clientId: 'logged-in-kori',
+    sessionId: null,
+    exerciseId: 'squat',
+    ...overrides,
+  };
+}
+
+describe('previewWorkoutImport', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    setWorkoutRepository(createMemoryWorkoutRepository());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps exercises to the catalog and keeps unknown ones under their own name', async () => {
+    const preview = await previewWorkoutImport(STRONG_LB_CSV, 'lb');
+
+    expect(preview.source).toBe('strong');
+    expect(preview.mappings).toEqual([
+      { sourceName: 'Bench Press (Barbell)', exerciseName: 'Bench Press', exerciseId: 'bench-press', isNew: false, setCount: 2 },
+      { sourceName: 'Cable Crossover', exerciseName: 'Cable Crossover', exerciseId: null, isNew: true, setCount: 1 },
+      { sourceName: 'Squat (Barbell)', exerciseName: 'Squat', exerciseId: 'squat', isNew: false, setCount: 1 },
+    ]);
+    expect(preview.sessions).toHaveLength(2);
+    expect(preview.sets.map(({ exerciseName, setNumber }) => [exerciseName, setNumber])).toEqual([
+      ['Bench Press', 1],
+      ['Bench Press', 2],
+      ['Cable Crossover', 1],
+      ['Squat', 1],
+    ]);
+    expect(preview.range).toEqual({ from: '2023-01-15', to: '2023-01-17' });
+    expect(preview.alreadyImported).toBe(0);
+  });
+
+  it('stores kg weights in pounds and remembers the unit', async () => {
+    const preview = await previewWorkoutImport(HEVY_KG_CSV, 'lb');
+
+    expect(preview.sets[0]).toMatchObject({ weight: 220.46, weightUnit: 'kg', rpe: 8 });
+  });
+
+  it('reports dates that already have sets logged in KORI', async () => {
+    setWorkoutRepository(createMemoryWorkoutRepository([existingSet({})]));
+
+    const preview = await previewWorkoutImport(STRONG_LB_CSV, 'lb');
+
+    expect(preview.conflicts).toEqual([{ date: '2023-01-17', existingSets: 1, importedSets: 1 }]);
+  });
+
+  it('leaves conflicting dates out when asked', async () => {
+    setWorkoutRepository(createMemoryWorkoutRepository([existingSet({})]));
+
+    const preview = await previewWorkoutImport(STRONG_LB_CSV, 'lb');
+    const result = await commitWorkoutImport(preview, { skipConflictingDates: true });
+
+    expect(result).toEqual({ sessions: 1, sets: 3, skippedForConflicts: 1 });
+  });
+
+  it('comes back as already imported when the same file is imported again', async () => {
+    const first = await previewWorkoutImport(STRONG_LB_CSV, 'lb');
+    expect(await commitWorkoutImport(first, { skipConflictingDates: false })).toEqual({
+      sessions: 2,
+      sets: 4,
+      skippedForConflicts: 0,
+    });
+
+    const again = await previewWorkoutImport(STRONG_LB_CSV, 'lb');
+
+    expect(again.alreadyImported).toBe(4);
+    expect(again.sets).toEqual([]);
+    expect(again.sessions).toEqual([]);
+    // The sets saved by the first import are not conflicts
+    expect(again.conflicts).toEqual([]);
+  });
+});
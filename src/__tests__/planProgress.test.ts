@@ -0,0 +1,55 @@
+import type { WorkoutTemplate } from '../types/template';
+import type { SetType } from '../types/workout';
+import { buildPlanProgress } from '../utils/planProgress';
+
+const plan: WorkoutTemplate = {
+  id: 'squat-day',
+  name: 'Squat Day',
+  exercises: [
+    { exerciseName: 'Squat', targetSets: 2, repRange: { min: 3, max: 5 }, restSeconds: 180 },
+    { exerciseName: 'Leg Press', targetSets: 2, repRange: { min: 8, max: 12 }, restSeconds: 120 },
+    { exerciseName: 'Squat', targetSets: 2, repRange: { min: 8, max: 10 }, restSeconds: 120 },
+  ],
+};
+
+function logged(exerciseName: string, minute: number, setType: SetType = 'working') {
+  return { exerciseName, setType, loggedAt: `2026-10-19T18:${String(minute).padStart(2, '0')}:00.000Z` };
+}
+
+describe('buildPlanProgress', () => {
+  it('fills an exercise planned twice entry by entry', () => {
+    const progress = buildPlanProgress(plan, [
+      logged('Squat', 0, 'warmup'),
+      logged('Squat', 5),
+      logged('Squat', 10),
+      logged('Squat', 15),
+    ]);
+
+    expect(progress.exercises.map((exercise) => exercise.doneSets)).toEqual([2, 0, 1]);
+    expect(progress.currentIndex).toBe(2);
+    expect(progress.lastIndex).toBe(2);
+  });
+
+  it('moves on to the first unfinished entry once the current one is done', () => {
+    const progress = buildPlanProgress(plan, [logged('Squat', 5), logged('Squat', 10)]);
+
+    expect(progress.exercises[0].isComplete).toBe(true);
+    expect(progress.currentIndex).toBe(1);
+    expect(progress.lastIndex).toBe(0);
+  });
+
+  it('counts extra sets towards the last entry', () => {
+    const sets = [5, 10, 15, 20, 25].map((minute) => logged('Squat', minute));
+    const progress = buildPlanProgress(plan, [...sets, logged('Leg Press', 30), logged('Leg Press', 35)]);
+
+    expect(progress.exercises.map((exercise) => exercise.doneSets)).toEqual([2, 2, 3]);
+    expect(progress.currentIndex).toBeNull();
+  });
+
+  it('has no last entry when the latest set is not in the plan', () => {
+    const progress = buildPlanProgress(plan, [logged('Squat', 5), logged('Plank', 10)]);
+
+    expect(progress.lastIndex).toBeNull();
+    expect(progress.currentIndex).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { DEFAULT_PROGRESSION_CONFIG, type ProgressionConfig } from '../types/progression';
+import type { WorkoutSet } from '../types/workout';
+import { PROGRESSION_STRATEGIES } from '../utils/progression';
+
+function makeSet(overrides: Partial<WorkoutSet> = {}): WorkoutSet {
+  return {
+    id: 1,
+    date: '2026-10-19',
+    loggedAt: '2026-10-19T18:00:00.000Z',
+    exerciseName: 'Bench Press',
+    weight: 135,
+    weightUnit: 'lb',
+    loadType: 'weighted',
+    reps: 8,
+    durationSeconds: null,
+    setNumber: 1,
+    setType: 'working',
+    rpe: null,
+    rir: null,
+    restSeconds: null,
+    userId: null,
+    clientId: null,
+    sessionId: null,
+    exerciseId: null,
+    ...overrides,
+  };
+}
+
+const config: ProgressionConfig = { ...DEFAULT_PROGRESSION_CONFIG, repRange: { min: 8, max: 12 }, incrementLb: 5 };
+
+describe('double progression', () => {
+  const { next } = PROGRESSION_STRATEGIES.double;
+
+  it('adds reps at the same weight below the top of the range', () => {
+    expect(next(makeSet({ reps: 8 }), config)).toMatchObject({ weight: 135, reps: 10, rule: 'add-reps' });
+  });
+
+  it('does not add reps past the top of the range', () => {
+    expect(next(makeSet({ reps: 11 }), config)).toMatchObject({ weight: 135, reps: 12, rule: 'add-reps' });
+  });
+
+  it('adds weight and starts again at the bottom once the top is reached', () => {
+    expect(next(makeSet({ reps: 12 }), config)).toMatchObject({ weight: 140, reps: 8, rule: 'add-weight' });
+  });
+});
+
+describe('linear progression', () => {
+  const { next } = PROGRESSION_STRATEGIES.linear;
+
+  it('adds weight when the target reps were hit', () => {
+    expect(next(makeSet({ reps: 8 }), config)).toMatchObject({ weight: 140, reps: 8, rule: 'add-weight' });
+  });
+
+  it('repeats the weight when the target reps were missed', () => {
+    expect(next(makeSet({ reps: 6 }), config)).toMatchObject({ weight: 135, reps: 8, rule: 'repeat-weight' });
+  });
+});
+
+describe('rpe progression', () => {
+  const { next } = PROGRESSION_STRATEGIES.rpe;
+  const rpeConfig: ProgressionConfig = { ...config, strategy: 'rpe', targetRpe: 8 };
+
+  it('adds load in proportion to how far below the target the set was', () => {
+    // 200 lb * 3% * 2 points = 12 lb, rounded to two 5 lb increments
+    expect(next(makeSet({ weight: 200, rpe: 6 }), rpeConfig)).toMatchObject({
+      weight: 210,
+      reps: 8,
+      rule: 'effort-below-target',
+    });
+  });
+
+  it('takes load off when the set was harder than the target', () => {
+    expect(next(makeSet({ weight: 200, rpe: 10 }), rpeConfig)).toMatchObject({
+      weight: 190,
+      rule: 'effort-above-target',
+    });
+  });
+
+  it('keeps the load when the set was on target', () => {
+    expect(next(makeSet({ weight: 200, rpe: 8 }), rpeConfig)).toMatchObject({ weight: 200, rule: 'effort-on-target' });
+  });
+
+  it('moves light loads by at least one increment', () => {
+    expect(next(makeSet({ weight: 20, rpe: 7 }), rpeConfig)).toMatchObject({ weight: 25, rule: 'effort-below-target' });
+    expect(next(makeSet({ weight: 20, rpe: 9 }), rpeConfig)).toMatchObject({ weight: 15, rule: 'effort-above-target' });
+  });
+
+  it('counts RIR as 10 - RIR', () => {
+    expect(next(makeSet({ weight: 200, rir: 4 }), rpeConfig)).toMatchObject({ weight: 210 });
+  });
+
+  it('adjusts reps instead of load for bodyweight sets', () => {
+    expect(next(makeSet({ loadType: 'bodyweight', weight: 0, reps: 10, rpe: 6 }), rpeConfig)).toMatchObject({
+      weight: 0,
+      reps: 12,
+      rule: 'effort-below-target',
+    });
+  });
+
+  it('falls back to double progression with no effort recorded', () => {
+    expect(next(makeSet({ reps: 8 }), rpeConfig)).toMatchObject({ weight: 135, reps: 10, rule: 'add-reps' });
+  });
+});
@@ -0,0 +1,116 @@
+import { detectCsvDelimiter, parseCsv } from '../utils/csv';
+import { detectImportSource, parseImportFile } from '../utils/workoutImport';
+
+const STRONG_CSV = [
+  'Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE',
+  '2023-01-15 08:30:00,"Push, heavy",1h 5m,Bench Press (Barbell),W,95,8,0,0,,,',
+  '2023-01-15 08:30:00,"Push, heavy",1h 5m,Bench Press (Barbell),1,185,5,0,0,"Felt ""easy""",,7.5',
+  '2023-01-15 08:30:00,"Push, heavy",1h 5m,Bench Press (Barbell),Rest Timer,0,0,0,90,,,',
+  '2023-01-15 08:30:00,"Push, heavy",1h 5m,Pull Up (Assisted),1,40,8,0,0,,,',
+  '2023-01-15 08:30:00,"Push, heavy",1h 5m,Plank,1,0,0,0,60,,,',
+  '2023-01-15 08:30:00,"Push, heavy",1h 5m,Running,1,0,0,3.2,0,,,',
+].join('\n');
+
+// Strong in a locale with decimal commas, weights in kg
+const STRONG_SEMICOLON_KG_CSV = [
+  'Date;Workout Name;Duration;Exercise Name;Set Order;Weight;Reps;Distance;Seconds;Notes;Workout Notes;RPE',
+  '2023-03-02 18:05:00;Legs;45m;Squat (Barbell);1;82,5;5;0;0;;;8',
+].join('\r\n');
+
+const HEVY_KG_CSV = [
+  '"title","start_time","end_time","description","exercise_title","superset_id","exercise_notes","set_index","set_type","weight_kg","reps","distance_km","duration_seconds","rpe"',
+  '"Upper A","15 Jan 2023, 08:30","15 Jan 2023, 09:35","","Bench Press (Barbell)","","","0","warmup","40","10","","",""',
+  '"Upper A","15 Jan 2023, 08:30","15 Jan 2023, 09:35","","Bench Press (Barbell)","","","1","normal","80","5","","","8"',
+  '"Upper A","15 Jan 2023, 08:30","15 Jan 2023, 09:35","","Bench Press (Barbell)","","","2","dropset","60","8","","",""',
+].join('\n');
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+    expect(parseCsv('a,b\n"x, y","say ""hi""\nthere"\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('drops a leading BOM and blank lines', () => {
+    expect(parseCsv('\uFEFFa;b\r\n\r\n1;2', ';')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it("picks ';' when the header has more semicolons than commas", () => {
+    expect(detectCsvDelimiter(STRONG_SEMICOLON_KG_CSV)).toBe(';');
+    expect(detectCsvDelimiter(STRONG_CSV)).toBe(',');
+  });
+});
+
+describe('detectImportSource', () => {
+  it('recognizes Strong and Hevy headers', () => {
+    expect(detectImportSource(parseCsv(STRONG_CSV)[0])).toBe('strong');
+    expect(detectImportSource(parseCsv(HEVY_KG_CSV)[0])).toBe('hevy');
+    expect(detectImportSource(['date', 'exercise', 'weight'])).toBeNull();
+  });
+});
+
+describe('parseImportFile', () => {
+  it('reads a Strong export in the unit the user chose', () => {
+    const { source, sets, skipped } = parseImportFile(STRONG_CSV, 'lb');
+
+    expect(source).toBe('strong');
+    expect(sets.map(({ exerciseName, setType, loadType, weight, reps, durationSeconds, rpe }) => ({
+      exerciseName, setType, loadType, weight, reps, durationSeconds, rpe,
+    }))).toEqual([
+      { exerciseName: 'Bench Press (Barbell)', setType: 'warmup', loadType: 'weighted', weight: 95, reps: 8, durationSeconds: null, rpe: null },
+      { exerciseName: 'Bench Press (Barbell)', setType: 'working', loadType: 'weighted', weight: 185, reps: 5, durationSeconds: null, rpe: 7.5 },
+      { exerciseName: 'Pull Up (Assisted)', setType: 'working', loadType: 'bodyweight', weight: -40, reps: 8, durationSeconds: null, rpe: null },
+      { exerciseName: 'Plank', setType: 'working', loadType: 'bodyweight', weight: 0, reps: null, durationSeconds: 60, rpe: null },
+    ]);
+    expect(sets.every((set) => set.unit === 'lb' && set.workoutName === 'Push, heavy')).toBe(true);
+    expect(sets[0]).toMatchObject({
+      localDate: '2023-01-15',
+      startedAt: new Date(2023, 0, 15, 8, 30).toISOString(),
+      endedAt: new Date(2023, 0, 15, 9, 35).toISOString(),
+    });
+    // The rest timer row is not a set; the distance-only row can't be imported
+    expect(skipped).toEqual([{ row: 7, reason: 'No reps or duration (distance-only sets are not supported)' }]);
+  });
+
+  it("reads a ';'-delimited Strong export with decimal commas", () => {
+    const { sets } = parseImportFile(STRONG_SEMICOLON_KG_CSV, 'kg');
+
+    expect(sets).toHaveLength(1);
+    expect(sets[0]).toMatchObject({
+      exerciseName: 'Squat (Barbell)',
+      weight: 82.5,
+      unit: 'kg',
+      reps: 5,
+      rpe: 8,
+      localDate: '2023-03-02',
+    });
+  });
+
+  it('takes the unit of a Hevy export from its weight column', () => {
+    const { source, sets } = parseImportFile(HEVY_KG_CSV, 'lb');
+
+    expect(source).toBe('hevy');
+    expect(sets.map(({ setType, weight, unit, reps, rpe }) => ({ setType, weight, unit, reps, rpe }))).toEqual([
+      { setType: 'warmup', weight: 40, unit: 'kg', reps: 10, rpe: null },
+      { setType: 'working', weight: 80, unit: 'kg', reps: 5, rpe: 8 },
+      { setType: 'drop', weight: 60, unit: 'kg', reps: 8, rpe: null },
+    ]);
+    expect(sets[0]).toMatchObject({
+      workoutName: 'Upper A',
+      localDate: '2023-01-15',
+      endedAt: new Date(2023, 0, 15, 9, 35).toISOString(),
+    });
+  });
+
+  it('skips rows it cannot read and rejects other files', () => {
+    const csv = STRONG_CSV.split('\n')[0] + '\nnot a date,Push,,Bench Press (Barbell),1,185,5,0,0,,,';
+    expect(parseImportFile(csv, 'lb').skipped).toEqual([{ row: 2, reason: 'Unrecognized date "not a date"' }]);
+    expect(() => parseImportFile('date,exercise\n2023-01-15,Squat', 'lb')).toThrow('Unrecognized file');
+  });
+});
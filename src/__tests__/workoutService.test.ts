@@ -0,0 +1,71 @@
+import { createMemoryWorkoutRepository, setWorkoutRepository } from '../services/repositories';
+import { getLastSessionForExercise } from '../services/workoutService';
+import { DEFAULT_PAGE_SIZE, type WorkoutSet } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let nextId = 1;
+
+function makeSet(overrides: Partial<WorkoutSet>): WorkoutSet {
+  const id = nextId++;
+  return {
+    id,
+    date: '2026-10-01',
+    loggedAt: '2026-10-01T18:00:00.000Z',
+    exerciseName: 'Squat',
+    weight: 225,
+    weightUnit: 'lb',
+    loadType: 'weighted',
+    reps: 5,
+    durationSeconds: null,
+    setNumber: 1,
+    setType: 'working',
+    rpe: null,
+    rir: null,
+    restSeconds: null,
+    userId: null,
+    clientId: `set-${id}`,
+    sessionId: 'session-1',
+    exerciseId: 'squat',
+    ...overrides,
+  };
+}
+
+describe('getLastSessionForExercise', () => {
+  it('skips workouts with nothing but warm-ups', async () => {
+    setWorkoutRepository(
+      createMemoryWorkoutRepository([
+        makeSet({ sessionId: 'older', date: '2026-10-01', weight: 225 }),
+        makeSet({ sessionId: 'newer', date: '2026-10-05', weight: 135, setType: 'warmup' }),
+      ])
+    );
+
+    const session = await getLastSessionForExercise('Squat');
+
+    expect(session?.sessionId).toBe('older');
+    expect(session?.sets.map((set) => set.weight)).toEqual([225]);
+  });
+
+  it('pages back past a full page of warm-ups and the session in progress', async () => {
+    const warmups = Array.from({ length: DEFAULT_PAGE_SIZE + 5 }, (_, index) =>
+      makeSet({ sessionId: `warmup-${index}`, date: '2026-10-10', setType: 'warmup' })
+    );
+    setWorkoutRepository(
+      createMemoryWorkoutRepository([
+        makeSet({ sessionId: 'older', date: '2026-10-01' }),
+        ...warmups,
+        makeSet({ sessionId: 'current', date: '2026-10-12' }),
+      ])
+    );
+
+    expect((await getLastSessionForExercise('Squat', 'current'))?.sessionId).toBe('older');
+  });
+
+  it('returns null without any working set', async () => {
+    setWorkoutRepository(createMemoryWorkoutRepository([makeSet({ setType: 'warmup' })]));
+
+    expect(await getLastSessionForExercise('Squat')).toBeNull();
+  });
+});
@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { usePreferencesContext } from '../contexts/PreferencesContext';
+import { borderRadius, colors, spacing, typography } from '../theme';
+import type { LoggedWorkoutSet, SetType, UpdateWorkoutSetInput } from '../types/workout';
+import { MAX_RECORDED_REST_SECONDS, isRecordableRest } from '../utils/rest';
+import {
+  isDurationInRange, isValidRir, isValidRpe, MAX_DURATION_SECONDS, SET_TYPE_LABELS, SET_TYPES
+} from '../utils/setMetadata';
+import { fromPounds, isAddedLoadInRange, isWeightInRange, toPounds, unitLabel, weightRangeLabel } from '../utils/units';
+
+interface EditSetModalProps {
+  set: LoggedWorkoutSet | null;
+  saving?: boolean;
+  onSave: (changes: UpdateWorkoutSetInput) => void;
+  onCancel: () => void;
+}
+
+export default function EditSetModal({ set, saving = false, onSave, onCancel }: EditSetModalProps) {
+  const { weightUnit } = usePreferencesContext();
+  const [exerciseName, setExerciseName] = useState('');
+  const [weight, setWeight] = useState('');
+  const [reps, setReps] = useState('');
+  const [setType, setSetType] = useState<SetType>('working');
+  const [rpe, setRpe] = useState('');
+  const [rir, setRir] = useState('');
+  const [rest, setRest] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Timed sets edit seconds in place of reps; bodyweight sets edit the added load
+  const isTimed = set?.durationSeconds != null;
+  const isBodyweight = set?.loadType === 'bodyweight';
+
+  useEffect(() => {
+    if (set) {
+      setExerciseName(set.exerciseName);
+      setWeight(String(fromPounds(set.weight, weightUnit)));
+      setReps(String(set.durationSeconds ?? set.reps));
+      setSetType(set.setType);
+      setRpe(set.rpe === null ? '' : String(set.rpe));
+      setRir(set.rir === null ? '' : String(set.rir));
+      // Sets queued before rests were recorded have no field at all
+      setRest(typeof set.restSeconds === 'number' ? String(set.restSeconds) : '');
+      setValidationError(null);
+    }
+  }, [set, weightUnit]);
+
+  const handleSave = () => {
+    const trimmedName = exerciseName.trim();
+    const parsedWeight = Number(weight);
+    const parsedReps = Number(reps);
+    const parsedRpe = rpe.trim() === '' ? null : Number(rpe);
+    const parsedRir = rir.trim() === '' ? null : Number(rir);
+    const parsedRest = rest.trim() === '' ? null : Number(rest);
+
+    if (trimmedName.length < 3) {
+      setValidationError('Enter an exercise name');
+      return;
+    }
+    const weightInRange = isBodyweight
+      ? isAddedLoadInRange(parsedWeight, weightUnit)
+      : isWeightInRange(parsedWeight, weightUnit);
+    if (!Number.isFinite(parsedWeight) || !weightInRange) {
+      setValidationError(`Weight must be between ${weightRangeLabel(weightUnit)}`);
+      return;
+    }
+    if (isTimed && !isDurationInRange(parsedReps)) {
+      setValidationError(`Duration must be between 1 and ${MAX_DURATION_SECONDS} seconds`);
+      return;
+    }
+    if (!isTimed && (!Number.isInteger(parsedReps) || parsedReps < 1 || parsedReps > 50)) {
+      setValidationError('Reps must be between 1 and 50');
+      return;
+    }
+    if (parsedRpe !== null && (!Number.isFinite(parsedRpe) || !isValidRpe(parsedRpe))) {
+      setValidationError('RPE must be between 1 and 10');
+      return;
+    }
+    if (parsedRir !== null && !isValidRir(parsedRir)) {
+      setValidationError('RIR must be a whole number between 0 and 10');
+      return;
+    }
+    if (!isRecordableRest(parsedRest)) {
+      setValidationError(`Rest must be between 0 and ${MAX_RECORDED_REST_SECONDS} seconds`);
+      return;
+    }
+
+    // Only touch the weight if it changed, so an untouched kg set is not re-rounded.
+    // Likewise the name: a changed one is matched to the catalog and may move the set.
+    const weightChanged = !set || parsedWeight !== fromPounds(set.weight, weightUnit);
+    const nameChanged = !set || trimmedName !== set.exerciseName;
+    onSave({
+      ...(nameChanged && { exerciseName: trimmedName }),
+      ...(weightChanged && { weight: toPounds(parsedWeight, weightUnit), weightUnit }),
+      ...(isTimed ? { durationSeconds: parsedReps } : { reps: parsedReps }),
+      setType,
+      rpe: parsedRpe,
+      rir: parsedRir,
+      restSeconds: parsedRest,
+    });
+  };
+
+  return (
+    <Modal visible={!!set} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Edit Set</Text>
+
+          <Text style={styles.label}>Exercise</Text>
+          <TextInput
+            style={styles.input}
+            value={exerciseName}
+            onChangeText={setExerciseName}
+            autoCapitalize="words"
+            placeholderTextColor={colors.text.tertiary}
+          />
+
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>
+                {isBodyweight ? 'Added load' : 'Weight'} ({unitLabel(weightUnit)})
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={weight}
+                onChangeText={setWeight}
+                keyboardType={isBodyweight ? 'numbers-and-punctuation' : 'decimal-pad'}
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>{isTimed ? 'Seconds' : 'Reps'}</Text>
+              <TextInput
+                style={styles.input}
+                value={reps}
+                onChangeText={setReps}
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+
+          <Text style={styles.label}>Set type</Text>
+          <View style={styles.chips}>
+            {SET_TYPES.map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, setType === type && styles.chipSelected]}
+                activeOpacity={0.8}
+                onPress={() => setSetType(type)}
+              >
+                <Text style={[styles.chipText, setType === type && styles.chipTextSelected]}>
+                  {SET_TYPE_LABELS[type]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>RPE (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={rpe}
+                onChangeText={setRpe}
+                keyboardType="decimal-pad"
+                placeholder="1-10"
+                placeholderTextColor={colors.text.tertiary}
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>RIR (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={rir}
+                onChangeText={setRir}
+                keyboardType="number-pad"
+                placeholder="0-10"
+                placeholderTextColor={colors.text.tertiary}
+              />
+            </View>
+          </View>
+
+          <Text style={styles.label}>Rest before the set, seconds (optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={rest}
+            onChangeText={setRest}
+            keyboardType="number-pad"
+            placeholderTextColor={colors.text.tertiary}
+          />
+
+          {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.saveButton}
+              activeOpacity={0.8}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              activeOpacity={0.8}
+              onPress={onCancel}
+              disabled={saving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.dark,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  card: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 460,
+  },
+  title: {
+    ...typography.h5,
+    color: colors.text.primary,
+    marginBottom: spacing.lg,
+    textAlign: 'center',
+  },
+  label: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    ...typography.body,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  rowField: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.primary,
+  },
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
+  saveButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  saveButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
+  cancelButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  cancelButtonText: {
+    ...typography.button,
+    color: colors.text.primary,
+  },
+});
@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { usePreferencesContext } from '../contexts/PreferencesContext';
+import { borderRadius, colors, spacing, typography } from '../theme';
+import type { EquipmentProfile, LoadingMethod } from '../types/equipment';
+import { fromPounds, MAX_WEIGHT_LB, toPounds, unitLabel } from '../utils/units';
+
+interface EquipmentModalProps {
+  exerciseName: string | null;
+  profile: EquipmentProfile | null;
+  saving?: boolean;
+  onSave: (profile: EquipmentProfile, scope: 'exercise' | 'gym') => void;
+  onCancel: () => void;
+}
+
+const METHOD_LABELS: Record<LoadingMethod, string> = {
+  plates: 'Plates',
+  stack: 'Weight stack',
+  dumbbells: 'Dumbbells',
+  none: 'Any weight',
+};
+
+const METHODS = Object.keys(METHOD_LABELS) as LoadingMethod[];
+
+const MAX_STEP_LB = 50;
+
+// "45, 25, 10" -> [45, 25, 10]; null if anything isn't a positive number
+function parsePlates(text: string): number[] | null {
+  const values = text.split(/[,\s]+/).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some((value) => !Number.isFinite(value) || value <= 0)) {
+    return null;
+  }
+  return values;
+}
+
+export default function EquipmentModal({
+  exerciseName,
+  profile,
+  saving = false,
+  onSave,
+  onCancel,
+}: EquipmentModalProps) {
+  const { weightUnit } = usePreferencesContext();
+  const [method, setMethod] = useState<LoadingMethod>('none');
+  const [baseWeight, setBaseWeight] = useState('');
+  const [plates, setPlates] = useState('');
+  const [step, setStep] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (exerciseName && profile) {
+      setMethod(profile.method);
+      setBaseWeight(String(fromPounds(profile.baseWeightLb, weightUnit)));
+      setPlates(profile.platesLb.map((plate) => fromPounds(plate, weightUnit)).join(', '));
+      setStep(String(fromPounds(profile.stepLb, weightUnit)));
+      setValidationError(null);
+    }
+  }, [exerciseName, profile, weightUnit]);
+
+  const handleSave = (scope: 'exercise' | 'gym') => {
+    if (!profile) return;
+
+    const parsedBase = Number(baseWeight);
+    const parsedPlates = parsePlates(plates);
+    const parsedStep = Number(step);
+
+    if (method === 'plates') {
+      if (!Number.isFinite(parsedBase) || parsedBase < 0 || toPounds(parsedBase, weightUnit) > MAX_WEIGHT_LB) {
+        setValidationError('Bar or sled weight must be a number, 0 or more');
+        return;
+      }
+      if (!parsedPlates) {
+        setValidationError('List your plate sizes, e.g. 45, 25, 10, 5, 2.5');
+        return;
+      }
+    }
+    if ((method === 'stack' || method === 'dumbbells') &&
+        (!Number.isFinite(parsedStep) || parsedStep <= 0 || toPounds(parsedStep, weightUnit) > MAX_STEP_LB)) {
+      setValidationError(
+        `Step must be between 0 and ${fromPounds(MAX_STEP_LB, weightUnit)} ${unitLabel(weightUnit)}`
+      );
+      return;
+    }
+
+    // Untouched values keep their stored pounds so they aren't re-rounded through kg
+    const unchangedPlates =
+      plates === profile.platesLb.map((plate) => fromPounds(plate, weightUnit)).join(', ');
+    onSave(
+      {
+        method,
+        baseWeightLb:
+          method === 'plates' && parsedBase !== fromPounds(profile.baseWeightLb, weightUnit)
+            ? toPounds(parsedBase, weightUnit)
+            : profile.baseWeightLb,
+        platesLb:
+          method === 'plates' && parsedPlates && !unchangedPlates
+            ? parsedPlates.map((plate) => toPounds(plate, weightUnit)).sort((a, b) => b - a)
+            : profile.platesLb,
+        stepLb:
+          (method === 'stack' || method === 'dumbbells') && parsedStep !== fromPounds(profile.stepLb, weightUnit)
+            ? toPounds(parsedStep, weightUnit)
+            : profile.stepLb,
+      },
+      scope
+    );
+  };
+
+  return (
+    <Modal visible={!!exerciseName} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{exerciseName} equipment</Text>
+
+          <Text style={styles.label}>Loaded with</Text>
+          <View style={styles.chips}>
+            {METHODS.map((id) => (
+              <TouchableOpacity
+                key={id}
+                style={[styles.chip, method === id && styles.chipSelected]}
+                activeOpacity={0.8}
+                onPress={() => setMethod(id)}
+              >
+                <Text style={[styles.chipText, method === id && styles.chipTextSelected]}>
+                  {METHOD_LABELS[id]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {method === 'plates' && (
+            <>
+              <Text style={styles.label}>Bar or sled ({unitLabel(weightUnit)})</Text>
+              <TextInput
+                style={styles.input}
+                value={baseWeight}
+                onChangeText={setBaseWeight}
+                keyboardType="decimal-pad"
+              />
+              <Text style={styles.label}>Plates available ({unitLabel(weightUnit)})</Text>
+              <TextInput
+                style={styles.input}
+                value={plates}
+                onChangeText={setPlates}
+                keyboardType="numbers-and-punctuation"
+              />
+            </>
+          )}
+
+          {(method === 'stack' || method === 'dumbbells') && (
+            <>
+              <Text style={styles.label}>
+                {method === 'stack' ? 'Stack step' : 'Dumbbell step'} ({unitLabel(weightUnit)})
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={step}
+                onChangeText={setStep}
+                keyboardType="decimal-pad"
+              />
+            </>
+          )}
+
+          {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.saveButton}
+              activeOpacity={0.8}
+              onPress={() => handleSave('exercise')}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              activeOpacity={0.8}
+              onPress={onCancel}
+              disabled={saving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+
+          {method !== 'none' && (
+            <TouchableOpacity activeOpacity={0.8} onPress={() => handleSave('gym')} disabled={saving}>
+              <Text style={styles.linkText}>Save as the gym default</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.dark,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  card: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 460,
+  },
+  title: {
+    ...typography.h5,
+    color: colors.text.primary,
+    marginBottom: spacing.lg,
+    textAlign: 'center',
+  },
+  label: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    ...typography.body,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.primary,
+  },
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
+  saveButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  saveButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
+  cancelButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  cancelButtonText: {
+    ...typography.button,
+    color: colors.text.primary,
+  },
+  linkText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+    marginTop: spacing.md,
+  },
+});
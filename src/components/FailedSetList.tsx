@@ -0,0 +1,82 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { borderRadius, colors, spacing, typography } from '../theme';
+import type { PendingWorkoutSet } from '../types/workout';
+
+interface FailedSetListProps {
+  sets: PendingWorkoutSet[];
+  disabled?: boolean;
+  formatSet: (set: PendingWorkoutSet) => string;
+  onRetry: (set: PendingWorkoutSet) => Promise<void>;
+  onDiscard: (set: PendingWorkoutSet) => Promise<void>;
+}
+
+// Sets the server rejected, with why; they stay on the device until retried or discarded
+export default function FailedSetList({ sets, disabled = false, formatSet, onRetry, onDiscard }: FailedSetListProps) {
+  if (sets.length === 0) return null;
+
+  const handle = (action: (set: PendingWorkoutSet) => Promise<void>, set: PendingWorkoutSet) => {
+    action(set).catch((err) => console.warn('Failed set action error:', err));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        {sets.length === 1 ? "1 set couldn't be saved" : `${sets.length} sets couldn't be saved`}
+      </Text>
+      {sets.map((set) => (
+        <View key={set.clientId} style={styles.item}>
+          <Text style={styles.itemText}>{formatSet(set)}</Text>
+          {set.lastError && <Text style={styles.errorText}>{set.lastError}</Text>}
+          <View style={styles.actions}>
+            <TouchableOpacity activeOpacity={0.8} onPress={() => handle(onRetry, set)} disabled={disabled}>
+              <Text style={styles.actionText}>Retry</Text>
+            </TouchableOpacity>
+            <TouchableOpacity activeOpacity={0.8} onPress={() => handle(onDiscard, set)} disabled={disabled}>
+              <Text style={styles.actionText}>Discard</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    maxWidth: 460,
+    marginBottom: spacing.xl,
+  },
+  title: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  item: {
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  itemText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+  errorText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.xl,
+    marginTop: spacing.xs,
+  },
+  actionText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+  },
+});
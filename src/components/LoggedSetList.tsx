@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, type StyleProp, type TextStyle } from 'react-native';
+import Swipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+import { borderRadius, colors, spacing, typography } from '../theme';
+import {
+  isPendingWorkoutSet,
+  type LoggedWorkoutSet,
+  type PendingWorkoutSet,
+  type UpdateWorkoutSetInput,
+  type WorkoutSet,
+} from '../types/workout';
+import EditSetModal from './EditSetModal';
+
+interface LoggedSetListProps {
+  sets: WorkoutSet[] | null;
+  pendingSets?: PendingWorkoutSet[];
+  emptyText: string;
+  saving?: boolean;
+  itemStyle?: StyleProp<TextStyle>;
+  formatSet: (set: LoggedWorkoutSet) => string;
+  isHighlighted?: (set: LoggedWorkoutSet) => boolean;
+  onEdit: (set: LoggedWorkoutSet, changes: UpdateWorkoutSetInput) => Promise<void>;
+  onDelete: (set: LoggedWorkoutSet) => Promise<void>;
+}
+
+// Tap a set to edit it, swipe left to delete it
+export default function LoggedSetList({
+  sets,
+  pendingSets = [],
+  emptyText,
+  saving = false,
+  itemStyle,
+  formatSet,
+  isHighlighted,
+  onEdit,
+  onDelete,
+}: LoggedSetListProps) {
+  const [editingSet, setEditingSet] = useState<LoggedWorkoutSet | null>(null);
+
+  const syncedSets = sets || [];
+  // A set may briefly be both synced and still queued; show it once
+  const queuedSets = pendingSets.filter(
+    (pending) => !syncedSets.some((synced) => synced.clientId === pending.clientId)
+  );
+  const allSets: LoggedWorkoutSet[] = [...syncedSets, ...queuedSets];
+
+  const handleSave = async (changes: UpdateWorkoutSetInput) => {
+    if (!editingSet) return;
+    try {
+      await onEdit(editingSet, changes);
+      setEditingSet(null);
+    } catch {
+      // Error state is surfaced by the caller; keep the editor open
+    }
+  };
+
+  const handleDelete = async (set: LoggedWorkoutSet) => {
+    try {
+      await onDelete(set);
+    } catch {
+      // Error state is surfaced by the caller
+    }
+  };
+
+  if (allSets.length === 0) {
+    return <Text style={[styles.emptyText, itemStyle]}>{emptyText}</Text>;
+  }
+
+  return (
+    <>
+      {allSets.map((set) => {
+        const pending = isPendingWorkoutSet(set);
+        return (
+          <Swipeable
+            key={pending ? set.clientId : set.id}
+            friction={2}
+            rightThreshold={40}
+            containerStyle={styles.rowContainer}
+            renderRightActions={() => (
+              <TouchableOpacity
+                style={styles.deleteAction}
+                activeOpacity={0.8}
+                onPress={() => handleDelete(set)}
+                disabled={saving}
+              >
+                <Text style={styles.deleteActionText}>Delete</Text>
+              </TouchableOpacity>
+            )}
+          >
+            <TouchableOpacity activeOpacity={0.7} onPress={() => setEditingSet(set)}>
+              <Text
+                style={[itemStyle, isHighlighted?.(set) && styles.highlightedText, pending && styles.pendingText]}
+              >
+                {formatSet(set)}
+                {pending ? ' (pending)' : ''}
+              </Text>
+            </TouchableOpacity>
+          </Swipeable>
+        );
+      })}
+
+      <EditSetModal
+        set={editingSet}
+        saving={saving}
+        onSave={handleSave}
+        onCancel={() => setEditingSet(null)}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  rowContainer: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  emptyText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+  },
+  highlightedText: {
+    color: colors.primary,
+  },
+  pendingText: {
+    color: colors.text.tertiary,
+    fontStyle: 'italic',
+  },
+  deleteAction: {
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.lg,
+    marginVertical: spacing.xs,
+  },
+  deleteActionText: {
+    ...typography.button,
+    color: colors.text.primary,
+  },
+});
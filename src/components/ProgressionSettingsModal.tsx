@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { usePreferencesContext } from '../contexts/PreferencesContext';
+import { borderRadius, colors, spacing, typography } from '../theme';
+import type { ProgressionConfig, ProgressionStrategyId } from '../types/progression';
+import { PROGRESSION_STRATEGIES, PROGRESSION_STRATEGY_IDS } from '../utils/progression';
+import { fromPounds, toPounds, unitLabel } from '../utils/units';
+
+interface ProgressionSettingsModalProps {
+  exerciseName: string | null;
+  config: ProgressionConfig;
+  saving?: boolean;
+  onSave: (config: ProgressionConfig) => void;
+  onCancel: () => void;
+}
+
+const MAX_REPS = 50;
+const MAX_INCREMENT_LB = 50;
+
+export default function ProgressionSettingsModal({
+  exerciseName,
+  config,
+  saving = false,
+  onSave,
+  onCancel,
+}: ProgressionSettingsModalProps) {
+  const { weightUnit } = usePreferencesContext();
+  const [strategy, setStrategy] = useState<ProgressionStrategyId>(config.strategy);
+  const [minReps, setMinReps] = useState('');
+  const [maxReps, setMaxReps] = useState('');
+  const [increment, setIncrement] = useState('');
+  const [targetRpe, setTargetRpe] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (exerciseName) {
+      setStrategy(config.strategy);
+      setMinReps(String(config.repRange.min));
+      setMaxReps(String(config.repRange.max));
+      setIncrement(String(fromPounds(config.incrementLb, weightUnit)));
+      setTargetRpe(String(config.targetRpe));
+      setValidationError(null);
+    }
+  }, [exerciseName, config, weightUnit]);
+
+  const handleSave = () => {
+    const min = Number(minReps);
+    const max = Number(maxReps);
+    const parsedIncrement = Number(increment);
+    const parsedRpe = Number(targetRpe);
+
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min < 1 || max > MAX_REPS || min > max) {
+      setValidationError(`Rep range must be whole numbers between 1 and ${MAX_REPS}, lowest first`);
+      return;
+    }
+    const incrementLb = toPounds(parsedIncrement, weightUnit);
+    if (!Number.isFinite(parsedIncrement) || incrementLb <= 0 || incrementLb > MAX_INCREMENT_LB) {
+      setValidationError(
+        `Increment must be between 0 and ${fromPounds(MAX_INCREMENT_LB, weightUnit)} ${unitLabel(weightUnit)}`
+      );
+      return;
+    }
+    if (strategy === 'rpe' && (!Number.isFinite(parsedRpe) || parsedRpe < 5 || parsedRpe > 10)) {
+      setValidationError('Target RPE must be between 5 and 10');
+      return;
+    }
+
+    // Only re-convert the increment if it changed, so an untouched value is not re-rounded
+    const incrementChanged = parsedIncrement !== fromPounds(config.incrementLb, weightUnit);
+    onSave({
+      strategy,
+      repRange: { min, max },
+      incrementLb: incrementChanged ? incrementLb : config.incrementLb,
+      targetRpe: strategy === 'rpe' ? parsedRpe : config.targetRpe,
+    });
+  };
+
+  return (
+    <Modal visible={!!exerciseName} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{exerciseName}</Text>
+
+          <Text style={styles.label}>Progression</Text>
+          <View style={styles.chips}>
+            {PROGRESSION_STRATEGY_IDS.map((id) => (
+              <TouchableOpacity
+                key={id}
+                style={[styles.chip, strategy === id && styles.chipSelected]}
+                activeOpacity={0.8}
+                onPress={() => setStrategy(id)}
+              >
+                <Text style={[styles.chipText, strategy === id && styles.chipTextSelected]}>
+                  {PROGRESSION_STRATEGIES[id].label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>Min reps</Text>
+              <TextInput
+                style={styles.input}
+                value={minReps}
+                onChangeText={setMinReps}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Text style={styles.label}>Max reps</Text>
+              <TextInput
+                style={styles.input}
+                value={maxReps}
+                onChangeText={setMaxReps}
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+
+          <Text style={styles.label}>Increment ({unitLabel(weightUnit)})</Text>
+          <TextInput
+            style={styles.input}
+            value={increment}
+            onChangeText={setIncrement}
+            keyboardType="decimal-pad"
+          />
+
+          {strategy === 'rpe' && (
+            <>
+              <Text style={styles.label}>Target RPE</Text>
+              <TextInput
+                style={styles.input}
+                value={targetRpe}
+                onChangeText={setTargetRpe}
+                keyboardType="decimal-pad"
+              />
+            </>
+          )}
+
+          {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.saveButton}
+              activeOpacity={0.8}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              activeOpacity={0.8}
+              onPress={onCancel}
+              disabled={saving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.dark,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  card: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 460,
+  },
+  title: {
+    ...typography.h5,
+    color: colors.text.primary,
+    marginBottom: spacing.lg,
+    textAlign: 'center',
+  },
+  label: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    ...typography.body,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  rowField: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.primary,
+  },
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
+  saveButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  saveButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
+  cancelButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  cancelButtonText: {
+    ...typography.button,
+    color: colors.text.primary,
+  },
+});
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { borderRadius, colors, spacing, typography } from '../theme';
+import type { WorkoutTemplate } from '../types/template';
+import { formatTemplateExercises, parseTemplateExercises } from '../utils/templates';
+
+interface TemplateEditorModalProps {
+  template: WorkoutTemplate | null;
+  saving?: boolean;
+  onSave: (template: WorkoutTemplate) => void;
+  onDelete?: (id: string) => void;
+  onCancel: () => void;
+}
+
+const MAX_NAME_LENGTH = 40;
+
+export default function TemplateEditorModal({
+  template,
+  saving = false,
+  onSave,
+  onDelete,
+  onCancel,
+}: TemplateEditorModalProps) {
+  const [name, setName] = useState('');
+  const [exercises, setExercises] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (template) {
+      setName(template.name);
+      setExercises(formatTemplateExercises(template.exercises));
+      setValidationError(null);
+    }
+  }, [template]);
+
+  const handleSave = () => {
+    if (!template) return;
+
+    const trimmedName = name.trim();
+    if (!trimmedName || trimmedName.length > MAX_NAME_LENGTH) {
+      setValidationError(`Name must be 1 to ${MAX_NAME_LENGTH} characters`);
+      return;
+    }
+    const parsed = parseTemplateExercises(exercises);
+    if (typeof parsed === 'string') {
+      setValidationError(parsed);
+      return;
+    }
+    onSave({ ...template, name: trimmedName, exercises: parsed });
+  };
+
+  return (
+    <Modal visible={!!template} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{template?.name || 'New template'}</Text>
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Leg Day"
+            placeholderTextColor={colors.text.tertiary}
+          />
+
+          <Text style={styles.label}>Exercises in order: name, sets × reps, rest</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={exercises}
+            onChangeText={setExercises}
+            placeholder="Leg Press, 3 × 8-12, 90 s"
+            placeholderTextColor={colors.text.tertiary}
+            autoCorrect={false}
+            multiline
+          />
+
+          {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.saveButton}
+              activeOpacity={0.8}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              activeOpacity={0.8}
+              onPress={onCancel}
+              disabled={saving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+
+          {template && onDelete && (
+            <TouchableOpacity activeOpacity={0.8} onPress={() => onDelete(template.id)} disabled={saving}>
+              <Text style={styles.linkText}>Delete template</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.dark,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  card: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 460,
+  },
+  title: {
+    ...typography.h5,
+    color: colors.text.primary,
+    marginBottom: spacing.lg,
+    textAlign: 'center',
+  },
+  label: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    ...typography.body,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  multilineInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
+  saveButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  saveButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
+  cancelButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  cancelButtonText: {
+    ...typography.button,
+    color: colors.text.primary,
+  },
+  linkText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+    marginTop: spacing.md,
+  },
+});
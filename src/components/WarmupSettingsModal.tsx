@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { borderRadius, colors, spacing, typography } from '../theme';
+import type { WarmupConfig } from '../types/warmup';
+import { formatWarmupSteps, parseWarmupSteps } from '../utils/warmup';
+
+interface WarmupSettingsModalProps {
+  exerciseName: string | null;
+  config: WarmupConfig;
+  saving?: boolean;
+  onSave: (config: WarmupConfig) => void;
+  onCancel: () => void;
+}
+
+export default function WarmupSettingsModal({
+  exerciseName,
+  config,
+  saving = false,
+  onSave,
+  onCancel,
+}: WarmupSettingsModalProps) {
+  const [enabled, setEnabled] = useState(config.enabled);
+  const [steps, setSteps] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (exerciseName) {
+      setEnabled(config.enabled);
+      setSteps(formatWarmupSteps(config.steps));
+      setValidationError(null);
+    }
+  }, [exerciseName, config]);
+
+  const handleSave = () => {
+    const parsed = parseWarmupSteps(steps);
+    if (enabled && (!parsed || parsed.length === 0)) {
+      setValidationError('Write each step as "bar × 10" or "50% × 5", separated by commas');
+      return;
+    }
+    onSave({ enabled, steps: parsed && parsed.length > 0 ? parsed : config.steps });
+  };
+
+  return (
+    <Modal visible={!!exerciseName} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{exerciseName} warm-up</Text>
+
+          <View style={styles.chips}>
+            {[true, false].map((value) => (
+              <TouchableOpacity
+                key={String(value)}
+                style={[styles.chip, enabled === value && styles.chipSelected]}
+                activeOpacity={0.8}
+                onPress={() => setEnabled(value)}
+              >
+                <Text style={[styles.chipText, enabled === value && styles.chipTextSelected]}>
+                  {value ? 'Suggest warm-ups' : 'No warm-ups'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {enabled && (
+            <>
+              <Text style={styles.label}>Steps (percent of the working weight)</Text>
+              <TextInput
+                style={styles.input}
+                value={steps}
+                onChangeText={setSteps}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </>
+          )}
+
+          {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.saveButton}
+              activeOpacity={0.8}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              activeOpacity={0.8}
+              onPress={onCancel}
+              disabled={saving}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay.dark,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  card: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 460,
+  },
+  title: {
+    ...typography.h5,
+    color: colors.text.primary,
+    marginBottom: spacing.lg,
+    textAlign: 'center',
+  },
+  label: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    ...typography.body,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.primary,
+  },
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
+  saveButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  saveButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
+  cancelButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+  },
+  cancelButtonText: {
+    ...typography.button,
+    color: colors.text.primary,
+  },
+});
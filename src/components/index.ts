@@ -0,0 +1,7 @@
+export { default as EditSetModal } from './EditSetModal';
+export { default as EquipmentModal } from './EquipmentModal';
+export { default as FailedSetList } from './FailedSetList';
+export { default as LoggedSetList } from './LoggedSetList';
+export { default as ProgressionSettingsModal } from './ProgressionSettingsModal';
+export { default as TemplateEditorModal } from './TemplateEditorModal';
+export { default as WarmupSettingsModal } from './WarmupSettingsModal';
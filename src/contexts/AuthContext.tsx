@@ -0,0 +1,121 @@
+import type { Session, User } from '@supabase/supabase-js';
+import * as Linking from 'expo-linking';
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+import {
+  handleAuthRedirect,
+  initAuth,
+  isAuthEnabled,
+  signInAsGuest,
+  signInWithMagicLink,
+  signOut,
+  upgradeGuestAccount,
+} from '../services/authService';
+
+interface AuthContextValue {
+  authEnabled: boolean;
+  session: Session | null;
+  user: User | null;
+  isGuest: boolean;
+  loading: boolean;
+  error: string | null;
+  sendMagicLink: (email: string) => Promise<void>;
+  continueAsGuest: () => Promise<void>;
+  saveGuestAccount: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const authEnabled = isAuthEnabled();
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(authEnabled);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authEnabled) return;
+
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    initAuth(setSession)
+      .then((cleanup) => {
+        if (cancelled) {
+          cleanup();
+        } else {
+          unsubscribe = cleanup;
+        }
+      })
+      .catch((err) => {
+        console.error('Auth init error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load account');
+      })
+      .finally(() => setLoading(false));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [authEnabled]);
+
+  // Magic links open the app through its URL scheme
+  useEffect(() => {
+    if (!authEnabled) return;
+
+    const completeSignIn = (url: string | null) => {
+      if (!url) return;
+      handleAuthRedirect(url).catch((err) => {
+        console.error('Auth redirect error:', err);
+        setError(err instanceof Error ? err.message : 'Sign-in failed');
+      });
+    };
+
+    Linking.getInitialURL().then(completeSignIn);
+    const subscription = Linking.addEventListener('url', ({ url }) => completeSignIn(url));
+    return () => subscription.remove();
+  }, [authEnabled]);
+
+  const runAuthAction = useCallback(async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Something went wrong';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  const user = session?.user ?? null;
+
+  const value: AuthContextValue = {
+    authEnabled,
+    session,
+    user,
+    isGuest: !!user?.is_anonymous,
+    loading,
+    error,
+    sendMagicLink: (email) => runAuthAction(() => signInWithMagicLink(email)),
+    continueAsGuest: () => runAuthAction(signInAsGuest),
+    saveGuestAccount: (email) => runAuthAction(() => upgradeGuestAccount(email)),
+    signOut: () => runAuthAction(signOut),
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuthContext() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuthContext must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,88 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+import {
+  getOneRepMaxFormulaPreference,
+  getSpeakRecommendationReasonsPreference,
+  getWeightUnitPreference,
+  setOneRepMaxFormulaPreference,
+  setSpeakRecommendationReasonsPreference,
+  setWeightUnitPreference,
+} from '../services/preferencesService';
+import type { OneRepMaxFormula } from '../utils/oneRepMax';
+import type { WeightUnit } from '../utils/units';
+
+interface PreferencesContextValue {
+  weightUnit: WeightUnit;
+  setWeightUnit: (unit: WeightUnit) => void;
+  oneRepMaxFormula: OneRepMaxFormula;
+  setOneRepMaxFormula: (formula: OneRepMaxFormula) => void;
+  speakRecommendationReasons: boolean;
+  setSpeakRecommendationReasons: (enabled: boolean) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextValue | undefined>(undefined);
+
+interface PreferencesProviderProps {
+  children: ReactNode;
+}
+
+export function PreferencesProvider({ children }: PreferencesProviderProps) {
+  const [weightUnit, setWeightUnitState] = useState<WeightUnit>('lb');
+  const [oneRepMaxFormula, setOneRepMaxFormulaState] = useState<OneRepMaxFormula>('epley');
+  const [speakRecommendationReasons, setSpeakRecommendationReasonsState] = useState(false);
+
+  useEffect(() => {
+    getWeightUnitPreference()
+      .then(setWeightUnitState)
+      .catch((err) => console.warn('Failed to load unit preference:', err));
+    getOneRepMaxFormulaPreference()
+      .then(setOneRepMaxFormulaState)
+      .catch((err) => console.warn('Failed to load 1RM formula preference:', err));
+    getSpeakRecommendationReasonsPreference()
+      .then(setSpeakRecommendationReasonsState)
+      .catch((err) => console.warn('Failed to load recommendation reasons preference:', err));
+  }, []);
+
+  const setWeightUnit = useCallback((unit: WeightUnit) => {
+    setWeightUnitState(unit);
+    setWeightUnitPreference(unit).catch((err) =>
+      console.warn('Failed to save unit preference:', err)
+    );
+  }, []);
+
+  const setOneRepMaxFormula = useCallback((formula: OneRepMaxFormula) => {
+    setOneRepMaxFormulaState(formula);
+    setOneRepMaxFormulaPreference(formula).catch((err) =>
+      console.warn('Failed to save 1RM formula preference:', err)
+    );
+  }, []);
+
+  const setSpeakRecommendationReasons = useCallback((enabled: boolean) => {
+    setSpeakRecommendationReasonsState(enabled);
+    setSpeakRecommendationReasonsPreference(enabled).catch((err) =>
+      console.warn('Failed to save recommendation reasons preference:', err)
+    );
+  }, []);
+
+  return (
+    <PreferencesContext.Provider
+      value={{
+        weightUnit,
+        setWeightUnit,
+        oneRepMaxFormula,
+        setOneRepMaxFormula,
+        speakRecommendationReasons,
+        setSpeakRecommendationReasons,
+      }}
+    >
+      {children}
+    </PreferencesContext.Provider>
+  );
+}
+
+export function usePreferencesContext() {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error('usePreferencesContext must be used within a PreferencesProvider');
+  }
+  return context;
+}
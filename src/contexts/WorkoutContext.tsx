@@ -1,11 +1,15 @@
 import React, { createContext, useContext, ReactNode } from 'react';
 import { useWorkout } from '../hooks/useWorkout';
 import type { WorkoutData } from '../hooks/useWorkout';
+import type { WorkoutSession } from '../types/session';
+import type { WorkoutTemplate } from '../types/template';
 
 interface WorkoutContextValue {
   workoutData: WorkoutData;
-  startWorkout: () => void;
-  finishWorkout: () => void;
+  sessionElsewhere: WorkoutSession | null;
+  startWorkout: (plan?: WorkoutTemplate | null) => void;
+  joinWorkout: () => void;
+  finishWorkout: (notes?: string) => void;
   resetWorkout: () => void;
   formatDuration: (seconds: number) => string;
   isActive: boolean;
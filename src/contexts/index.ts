@@ -1 +1,3 @@
+export { AuthProvider, useAuthContext } from './AuthContext';
+export { PreferencesProvider, usePreferencesContext } from './PreferencesContext';
 export { WorkoutProvider, useWorkoutContext } from './WorkoutContext';
@@ -0,0 +1,26 @@
+import type { Exercise } from '../types/exercise';
+
+// Built-in catalog. Kept in sync with the seed in supabase/migrations.
+export const DEFAULT_EXERCISES: Exercise[] = [
+  { id: 'leg-press', name: 'Leg Press', aliases: ['Sled Press'], equipment: 'machine', muscleGroups: ['quads', 'glutes'], userId: null },
+  { id: 'leg-extension', name: 'Leg Extension', aliases: ['Quad Extension'], equipment: 'machine', muscleGroups: ['quads'], userId: null },
+  { id: 'hamstring-curl', name: 'Hamstring Curl', aliases: ['Leg Curl', 'Lying Leg Curl', 'Seated Leg Curl'], equipment: 'machine', muscleGroups: ['hamstrings'], userId: null },
+  { id: 'calf-raise', name: 'Calf Raise', aliases: ['Standing Calf Raise', 'Seated Calf Raise'], equipment: 'machine', muscleGroups: ['calves'], userId: null },
+  { id: 'squat', name: 'Squat', aliases: ['Back Squat', 'Barbell Squat'], equipment: 'barbell', muscleGroups: ['quads', 'glutes'], userId: null },
+  { id: 'bench-press', name: 'Bench Press', aliases: ['Bench', 'Barbell Bench Press', 'Flat Bench'], equipment: 'barbell', muscleGroups: ['chest', 'triceps'], userId: null },
+  { id: 'deadlift', name: 'Deadlift', aliases: ['Conventional Deadlift'], equipment: 'barbell', muscleGroups: ['hamstrings', 'glutes', 'back'], userId: null },
+  { id: 'romanian-deadlift', name: 'Romanian Deadlift', aliases: ['RDL', 'Stiff Leg Deadlift'], equipment: 'barbell', muscleGroups: ['hamstrings', 'glutes'], userId: null },
+  { id: 'overhead-press', name: 'Overhead Press', aliases: ['Shoulder Press', 'Military Press', 'OHP'], equipment: 'barbell', muscleGroups: ['shoulders', 'triceps'], userId: null },
+  { id: 'barbell-row', name: 'Barbell Row', aliases: ['Bent Over Row', 'Row'], equipment: 'barbell', muscleGroups: ['back', 'biceps'], userId: null },
+  { id: 'lat-pulldown', name: 'Lat Pulldown', aliases: ['Pulldown', 'Lat Pull Down'], equipment: 'cable', muscleGroups: ['back', 'biceps'], userId: null },
+  { id: 'seated-cable-row', name: 'Seated Cable Row', aliases: ['Cable Row', 'Seated Row'], equipment: 'cable', muscleGroups: ['back', 'biceps'], userId: null },
+  { id: 'pull-up', name: 'Pull-Up', aliases: ['Pullup', 'Chin-Up', 'Chinup'], equipment: 'bodyweight', muscleGroups: ['back', 'biceps'], userId: null },
+  { id: 'dip', name: 'Dip', aliases: ['Parallel Bar Dip', 'Tricep Dip'], equipment: 'bodyweight', muscleGroups: ['chest', 'triceps'], userId: null },
+  { id: 'bicep-curl', name: 'Bicep Curl', aliases: ['Biceps Curl', 'Curl', 'Dumbbell Curl'], equipment: 'dumbbell', muscleGroups: ['biceps'], userId: null },
+  { id: 'tricep-pushdown', name: 'Tricep Pushdown', aliases: ['Triceps Pushdown', 'Cable Pushdown'], equipment: 'cable', muscleGroups: ['triceps'], userId: null },
+  { id: 'lateral-raise', name: 'Lateral Raise', aliases: ['Side Raise', 'Side Lateral Raise'], equipment: 'dumbbell', muscleGroups: ['shoulders'], userId: null },
+  { id: 'chest-fly', name: 'Chest Fly', aliases: ['Pec Fly', 'Pec Deck', 'Dumbbell Fly'], equipment: 'machine', muscleGroups: ['chest'], userId: null },
+  { id: 'lunge', name: 'Lunge', aliases: ['Walking Lunge', 'Dumbbell Lunge'], equipment: 'dumbbell', muscleGroups: ['quads', 'glutes'], userId: null },
+  { id: 'hip-thrust', name: 'Hip Thrust', aliases: ['Barbell Hip Thrust', 'Glute Bridge'], equipment: 'barbell', muscleGroups: ['glutes'], userId: null },
+  { id: 'plank', name: 'Plank', aliases: ['Front Plank'], equipment: 'bodyweight', muscleGroups: ['core'], userId: null },
+];
@@ -3,12 +3,29 @@ export type { WorkoutData, WorkoutStatus } from './useWorkout';
 
 export { useAudioLock } from './useAudioLock';
 export { useAudioRecorder } from './useAudioRecorder';
+export { useEquipmentSettings } from './useEquipmentSettings';
+export { useExerciseCatalog } from './useExerciseCatalog';
+export { useExerciseHistory, useLastSessionForExercise } from './useExerciseHistory';
 export { useKoriAnimation } from './useKoriAnimation';
 export { useKoriSpeech } from './useKoriSpeech';
+export { useProgramSchedule } from './useProgramSchedule';
+export { useProgressionSettings } from './useProgressionSettings';
 export { useRecommendations } from './useRecommendations';
+export { useRestTimer } from './useRestTimer';
+export type { RestCue, RestTimer } from './useRestTimer';
+export type { Recommendation } from './useRecommendations';
+export { useSessionRecords } from './useSessionRecords';
+export { useSessionWorkoutSets } from './useSessionWorkoutSets';
 export { useSupabaseQuery } from './useSupabaseQuery';
 export { useTodaysWorkoutSets } from './useTodaysWorkoutSets';
+export { useWarmupSettings } from './useWarmupSettings';
 export { useWorkoutSession } from './useWorkoutSession';
+export { useWorkoutExport } from './useWorkoutExport';
+export { useWorkoutImport } from './useWorkoutImport';
+export { useWorkoutSetEditor } from './useWorkoutSetEditor';
 export { useWorkoutSetListener } from './useWorkoutSetListener';
+export { useWorkoutSetQueue } from './useWorkoutSetQueue';
+export { useWorkoutSetsInRange } from './useWorkoutSetsInRange';
+export { useWorkoutTemplates } from './useWorkoutTemplates';
 export { useYesNoListener } from './useYesNoListener';
 
@@ -0,0 +1,46 @@
+import { useCallback, useState } from 'react';
+import {
+  getEquipmentSettings,
+  getExerciseEquipment,
+  saveExerciseEquipment,
+  saveGymEquipment,
+} from '../services/equipmentService';
+import type { EquipmentProfile } from '../types/equipment';
+import { useExerciseCatalog } from './useExerciseCatalog';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+export function useEquipmentSettings() {
+  const { data, loading, setData } = useSupabaseQuery(getEquipmentSettings);
+  const { data: catalog } = useExerciseCatalog();
+  const [saving, setSaving] = useState(false);
+
+  const getCatalogEquipment = useCallback(
+    (exerciseName: string) => catalog?.find((exercise) => exercise.name === exerciseName)?.equipment ?? null,
+    [catalog]
+  );
+
+  const getProfile = useCallback(
+    (exerciseName: string): EquipmentProfile | null =>
+      data ? getExerciseEquipment(data, exerciseName, getCatalogEquipment(exerciseName)) : null,
+    [data, getCatalogEquipment]
+  );
+
+  const save = useCallback(async (
+    exerciseName: string,
+    profile: EquipmentProfile,
+    scope: 'exercise' | 'gym'
+  ) => {
+    try {
+      setSaving(true);
+      setData(
+        scope === 'gym'
+          ? await saveGymEquipment(exerciseName, getCatalogEquipment(exerciseName), profile)
+          : await saveExerciseEquipment(exerciseName, profile)
+      );
+    } finally {
+      setSaving(false);
+    }
+  }, [setData, getCatalogEquipment]);
+
+  return { settings: data, loading, saving, getProfile, save };
+}
@@ -0,0 +1,6 @@
+import { getExerciseCatalog } from '../services/exerciseService';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+export function useExerciseCatalog() {
+  return useSupabaseQuery(getExerciseCatalog);
+}
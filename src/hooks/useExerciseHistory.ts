@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { getExerciseHistory, getLastSessionForExercise } from '../services/workoutService';
+import { DEFAULT_PAGE_SIZE } from '../types/pagination';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+// Newest sets first; pass the previous page's nextOffset to page through
+export function useExerciseHistory(exerciseName: string, limit = DEFAULT_PAGE_SIZE, offset = 0) {
+  const queryFn = useMemo(
+    () => () => getExerciseHistory(exerciseName, limit, offset),
+    [exerciseName, limit, offset]
+  );
+
+  return useSupabaseQuery(queryFn);
+}
+
+export function useLastSessionForExercise(exerciseName: string) {
+  const queryFn = useMemo(
+    () => () => getLastSessionForExercise(exerciseName),
+    [exerciseName]
+  );
+
+  return useSupabaseQuery(queryFn);
+}
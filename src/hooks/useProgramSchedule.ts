@@ -0,0 +1,22 @@
+import { useCallback, useState } from 'react';
+import { getTodaysProgramDay, setActiveProgram } from '../services/programService';
+import { DEFAULT_PROGRAMS } from '../types/program';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+// Today's day of the active program, worked out from the workouts done since it was started
+export function useProgramSchedule() {
+  const { data: today, loading, error, refetch } = useSupabaseQuery(getTodaysProgramDay);
+  const [saving, setSaving] = useState(false);
+
+  const selectProgram = useCallback(async (programId: string | null) => {
+    try {
+      setSaving(true);
+      await setActiveProgram(programId);
+      await refetch();
+    } finally {
+      setSaving(false);
+    }
+  }, [refetch]);
+
+  return { programs: DEFAULT_PROGRAMS, today, loading, error, saving, selectProgram };
+}
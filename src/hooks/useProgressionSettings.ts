@@ -0,0 +1,20 @@
+import { useCallback, useState } from 'react';
+import { getProgressionSettings, saveExerciseProgression } from '../services/progressionService';
+import type { ProgressionConfig } from '../types/progression';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+export function useProgressionSettings() {
+  const { data, loading, setData } = useSupabaseQuery(getProgressionSettings);
+  const [saving, setSaving] = useState(false);
+
+  const saveExercise = useCallback(async (exerciseName: string, config: ProgressionConfig) => {
+    try {
+      setSaving(true);
+      setData(await saveExerciseProgression(exerciseName, config));
+    } finally {
+      setSaving(false);
+    }
+  }, [setData]);
+
+  return { settings: data ?? {}, loading, saving, saveExercise };
+}
@@ -1,40 +1,169 @@
-import { formatLocalDateYYYYMMDD, WorkoutSet } from '../types/workout';
+import { useMemo } from 'react';
+import { useWorkoutContext } from '../contexts/WorkoutContext';
+import { getEquipmentSettings, getExerciseEquipment } from '../services/equipmentService';
+import { getExerciseCatalog } from '../services/exerciseService';
+import { getExerciseRecords } from '../services/personalRecordService';
+import { getOneRepMaxFormulaPreference } from '../services/preferencesService';
+import { getCycleTrainingMaxes, saveCycleTrainingMaxes } from '../services/programService';
+import { getProgressionSettings } from '../services/progressionService';
+import { getExerciseWarmup, getWarmupSettings } from '../services/warmupService';
 import {
   buildAdaptationsFromLastSets,
-  getMostRecentWorkoutDateBefore,
-  getWorkoutSetsByDate,
+  getLastSessionForExercise,
+  type Adaptation,
 } from '../services/workoutService';
+import { daysBetweenLocalDates, formatLocalDateYYYYMMDD, type WorkoutSet } from '../types/workout';
+import {
+  programCycle,
+  trainingMaxFromE1rm,
+  type CyclePrescription,
+  type ProgramDay,
+} from '../utils/programs';
+import { isWarmupSet } from '../utils/setMetadata';
+import { buildWarmupSets, type WarmupSet } from '../utils/warmup';
 import { useSupabaseQuery } from './useSupabaseQuery';
 
-interface Recommendation {
-  exerciseName: string;
-  weight: number;
-  reps: number;
+export type Recommendation = Adaptation & {
+  lastDate: string; // the exercise's most recent workout
+  daysAgo: number;
+  warmup: WarmupSet[]; // empty for bodyweight and timed sets, or when turned off
+};
+
+// Heaviest working set, then most reps (or longest hold) at that weight
+function getBestWorkingSet(sets: WorkoutSet[]): WorkoutSet | null {
+  return sets
+    .filter((set) => !isWarmupSet(set))
+    .reduce<WorkoutSet | null>((best, set) => {
+      if (!best) return set;
+      if (set.weight !== best.weight) return set.weight > best.weight ? set : best;
+      const effort = set.reps ?? set.durationSeconds ?? 0;
+      const bestEffort = best.reps ?? best.durationSeconds ?? 0;
+      return effort > bestEffort ? set : best;
+    }, null);
 }
 
-function getLastSetPerExercise(sets: WorkoutSet[]): Record<string, WorkoutSet> {
-  const result: Record<string, WorkoutSet> = {};
-  sets.forEach((set) => {
-    if (!result[set.exerciseName] || set.setNumber > result[set.exerciseName].setNumber) {
-      result[set.exerciseName] = set;
+// Training maxes for the main lifts, taken from each lift's best estimated 1RM
+// the first time the cycle needs them and kept until the next cycle.
+async function fetchCycleTrainingMaxes(
+  programDay: ProgramDay,
+  currentSessionId: string | null
+): Promise<Record<string, number>> {
+  const cycle = programCycle(programDay);
+  const stored = (await getCycleTrainingMaxes(cycle)) ?? {};
+  const missing = programDay.program.mainLifts.filter((name) => stored[name] === undefined);
+  if (missing.length === 0) return stored;
+
+  const formula = await getOneRepMaxFormulaPreference();
+  const records = await Promise.all(missing.map((name) => getExerciseRecords(name, currentSessionId, formula)));
+
+  const taken: Record<string, number> = {};
+  records.forEach(({ bestE1rm }, index) => {
+    if (bestE1rm !== null) {
+      taken[missing[index]] = trainingMaxFromE1rm(bestE1rm);
     }
   });
-  return result;
+  if (Object.keys(taken).length === 0) return stored;
+
+  await saveCycleTrainingMaxes(cycle, taken);
+  return { ...taken, ...stored };
+}
+
+// This week's percentages for the main lifts. Lifts without an estimate yet keep their usual progression.
+async function fetchCyclePrescriptions(
+  exerciseNames: string[],
+  programDay: ProgramDay | null,
+  currentSessionId: string | null
+): Promise<Record<string, CyclePrescription>> {
+  const week = programDay?.week;
+  if (!week) return {};
+
+  const lifts = exerciseNames.filter((name) => programDay.program.mainLifts.includes(name));
+  if (lifts.length === 0) return {};
+
+  const trainingMaxes = await fetchCycleTrainingMaxes(programDay, currentSessionId);
+
+  const prescriptions: Record<string, CyclePrescription> = {};
+  for (const name of lifts) {
+    if (trainingMaxes[name] !== undefined) {
+      prescriptions[name] = { week, trainingMaxLb: trainingMaxes[name] };
+    }
+  }
+  return prescriptions;
 }
 
-async function fetchRecommendations(): Promise<Recommendation[]> {
+// Each exercise is based on its own last workout, so a missed leg day doesn't hide leg recommendations
+async function fetchRecommendations(
+  exerciseNames: string[],
+  programDay: ProgramDay | null,
+  currentSessionId: string | null
+): Promise<Recommendation[]> {
   const today = formatLocalDateYYYYMMDD();
-  const prevDate = await getMostRecentWorkoutDateBefore(today);
+  const lastSessions = await Promise.all(
+    exerciseNames.map((name) => getLastSessionForExercise(name, currentSessionId))
+  );
 
-  if (!prevDate) {
+  const bestSets: Record<string, WorkoutSet> = {};
+  const sourceSets: Record<string, WorkoutSet[]> = {};
+  const lastDates: Record<string, string> = {};
+  lastSessions.forEach((session, index) => {
+    const best = session ? getBestWorkingSet(session.sets) : null;
+    if (session && best) {
+      bestSets[exerciseNames[index]] = best;
+      sourceSets[exerciseNames[index]] = session.sets;
+      lastDates[exerciseNames[index]] = session.date;
+    }
+  });
+
+  if (Object.keys(bestSets).length === 0) {
     return [];
   }
 
-  const lastSets = await getWorkoutSetsByDate(prevDate);
-  const lastSetPerExercise = getLastSetPerExercise(lastSets);
-  return buildAdaptationsFromLastSets(lastSetPerExercise);
+  const [progression, equipmentSettings, warmupSettings, catalog, cycle] = await Promise.all([
+    getProgressionSettings(),
+    getEquipmentSettings(),
+    getWarmupSettings(),
+    getExerciseCatalog(),
+    fetchCyclePrescriptions(Object.keys(bestSets), programDay, currentSessionId),
+  ]);
+  const equipment = Object.fromEntries(
+    exerciseNames.map((name) => [
+      name,
+      getExerciseEquipment(
+        equipmentSettings,
+        name,
+        catalog.find((exercise) => exercise.name === name)?.equipment ?? null
+      ),
+    ])
+  );
+
+  return buildAdaptationsFromLastSets(bestSets, { progression, equipment, sourceSets, cycle })
+    .map((adaptation) => ({
+      ...adaptation,
+      lastDate: lastDates[adaptation.exerciseName],
+      daysAgo: daysBetweenLocalDates(lastDates[adaptation.exerciseName], today),
+      warmup:
+        adaptation.loadType === 'weighted' && adaptation.reps !== null
+          ? buildWarmupSets(
+              adaptation.weight,
+              getExerciseWarmup(warmupSettings, adaptation.exerciseName),
+              equipment[adaptation.exerciseName]
+            )
+          : [],
+    }))
+    .sort((a, b) => exerciseNames.indexOf(a.exerciseName) - exerciseNames.indexOf(b.exerciseName));
 }
 
-export function useRecommendations() {
-  return useSupabaseQuery(fetchRecommendations);
+// Recommendations for today's plan, in plan order, one per exercise even when the plan
+// lists it twice. A program day in a percentage week sets the main lifts from their training max.
+export function useRecommendations(exerciseNames: string[], programDay: ProgramDay | null = null) {
+  const { workoutData } = useWorkoutContext();
+  const planKey = [...new Set(exerciseNames)].join('\n');
+
+  const queryFn = useMemo(
+    () => () =>
+      fetchRecommendations(planKey ? planKey.split('\n') : [], programDay, workoutData.sessionId),
+    [planKey, programDay, workoutData.sessionId]
+  );
+
+  return useSupabaseQuery(queryFn);
 }
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MAX_RECORDED_REST_SECONDS } from '../utils/rest';
+
+export type RestCue = 'thirty-seconds' | 'done';
+
+export interface RestTimer {
+  exerciseName: string;
+  durationSeconds: number;
+  remainingSeconds: number;
+  elapsedSeconds: number;
+  isOver: boolean;
+}
+
+interface RestState {
+  exerciseName: string;
+  durationSeconds: number;
+  startedAt: number; // ms
+}
+
+interface UseRestTimerOptions {
+  onCue?: (cue: RestCue, exerciseName: string) => void;
+}
+
+const TICK_MS = 1000;
+const CUE_SECONDS_LEFT = 30;
+// The "30 seconds left" cue only fires within this window, so shortening the
+// rest past it doesn't announce it late
+const CUE_WINDOW_SECONDS = 5;
+const MIN_REST_SECONDS = 15;
+const MAX_REST_SECONDS = 10 * 60;
+
+function secondsSince(startedAt: number, now: number): number {
+  return Math.floor((now - startedAt) / 1000);
+}
+
+// Counts down from when a set is logged. Time is measured from the start, not by
+// counting ticks, so it stays right if the app was in the background.
+export function useRestTimer(options: UseRestTimerOptions = {}) {
+  const [rest, setRest] = useState<RestState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const restRef = useRef<RestState | null>(null);
+  restRef.current = rest;
+  const onCueRef = useRef(options.onCue);
+  onCueRef.current = options.onCue;
+  const firedRef = useRef(new Set<RestCue>());
+
+  useEffect(() => {
+    if (!rest) return;
+
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+
+      const remaining = rest.durationSeconds - secondsSince(rest.startedAt, current);
+      const fire = (cue: RestCue) => {
+        firedRef.current.add(cue);
+        onCueRef.current?.(cue, rest.exerciseName);
+      };
+
+      if (
+        remaining <= CUE_SECONDS_LEFT &&
+        remaining > CUE_SECONDS_LEFT - CUE_WINDOW_SECONDS &&
+        !firedRef.current.has('thirty-seconds')
+      ) {
+        fire('thirty-seconds');
+      }
+      if (remaining <= 0 && !firedRef.current.has('done')) {
+        fire('done');
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [rest]);
+
+  const start = useCallback((exerciseName: string, durationSeconds: number) => {
+    // A rest shorter than the cue has nothing to count down to
+    firedRef.current = new Set(durationSeconds <= CUE_SECONDS_LEFT ? ['thirty-seconds'] : []);
+    setRest({ exerciseName, durationSeconds, startedAt: Date.now() });
+  }, []);
+
+  // Cues still ahead after the change can fire (again)
+  const adjust = useCallback((deltaSeconds: number) => {
+    const current = restRef.current;
+    if (!current) return;
+
+    const durationSeconds = Math.min(
+      Math.max(current.durationSeconds + deltaSeconds, MIN_REST_SECONDS),
+      MAX_REST_SECONDS
+    );
+    const remaining = durationSeconds - secondsSince(current.startedAt, Date.now());
+    if (remaining > CUE_SECONDS_LEFT) firedRef.current.delete('thirty-seconds');
+    if (remaining > 0) firedRef.current.delete('done');
+    setRest({ ...current, durationSeconds });
+  }, []);
+
+  // Ends the countdown now without the cues; the rest keeps counting until finish
+  const skip = useCallback(() => {
+    const current = restRef.current;
+    if (!current) return;
+
+    firedRef.current = new Set<RestCue>(['thirty-seconds', 'done']);
+    setRest({ ...current, durationSeconds: secondsSince(current.startedAt, Date.now()) });
+  }, []);
+
+  // Stops the timer and returns how long the user actually rested, if it was timed
+  const finish = useCallback((): number | null => {
+    const current = restRef.current;
+    if (!current) return null;
+
+    setRest(null);
+    const elapsed = secondsSince(current.startedAt, Date.now());
+    return elapsed <= MAX_RECORDED_REST_SECONDS ? elapsed : null;
+  }, []);
+
+  const timer = useMemo((): RestTimer | null => {
+    if (!rest) return null;
+
+    const elapsedSeconds = Math.max(0, secondsSince(rest.startedAt, now));
+    const remainingSeconds = Math.max(0, rest.durationSeconds - elapsedSeconds);
+    return {
+      exerciseName: rest.exerciseName,
+      durationSeconds: rest.durationSeconds,
+      remainingSeconds,
+      elapsedSeconds,
+      isOver: remainingSeconds === 0,
+    };
+  }, [rest, now]);
+
+  return { timer, start, adjust, skip, finish };
+}
@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { usePreferencesContext } from '../contexts/PreferencesContext';
+import { findSessionRecords } from '../services/personalRecordService';
+import type { LoggedWorkoutSet, PendingWorkoutSet, WorkoutSet } from '../types/workout';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+// Personal records set during a session, keyed by getSetRecordKey
+export function useSessionRecords(
+  sets: WorkoutSet[] | null,
+  pendingSets: PendingWorkoutSet[],
+  sessionId: string | null
+) {
+  const { oneRepMaxFormula } = usePreferencesContext();
+
+  const queryFn = useMemo(() => {
+    const syncedSets = sets || [];
+    // A set may briefly be both synced and still queued; count it once
+    const allSets: LoggedWorkoutSet[] = [
+      ...syncedSets,
+      ...pendingSets.filter((pending) => !syncedSets.some((synced) => synced.clientId === pending.clientId)),
+    ];
+    return () => findSessionRecords(allSets, sessionId, oneRepMaxFormula);
+  }, [sets, pendingSets, sessionId, oneRepMaxFormula]);
+
+  return useSupabaseQuery(queryFn);
+}
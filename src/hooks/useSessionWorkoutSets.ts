@@ -0,0 +1,66 @@
+import * as Network from 'expo-network';
+import { useEffect, useMemo } from 'react';
+import { AppState } from 'react-native';
+import type { WorkoutSetChange } from '../services/repositories';
+import { getWorkoutSetsBySession, subscribeToSessionSets } from '../services/workoutService';
+import type { WorkoutSet } from '../types/workout';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+function compareSets(a: WorkoutSet, b: WorkoutSet): number {
+  return a.exerciseName.localeCompare(b.exerciseName) || a.setNumber - b.setNumber;
+}
+
+function applyChange(sets: WorkoutSet[], change: WorkoutSetChange, sessionId: string): WorkoutSet[] {
+  if (change.type === 'delete') {
+    return sets.filter((set) => set.id !== change.id);
+  }
+
+  const others = sets.filter((set) => set.id !== change.set.id);
+  // An edit can move a set out of this session
+  return change.set.sessionId === sessionId
+    ? [...others, change.set].sort(compareSets)
+    : others;
+}
+
+// Sets of one session, kept live: changes from any device are applied as they
+// arrive, and the list is re-fetched after reconnecting to fill any gap
+export function useSessionWorkoutSets(sessionId: string | null) {
+  const queryFn = useMemo(
+    () => async (): Promise<WorkoutSet[]> => (sessionId ? getWorkoutSetsBySession(sessionId) : []),
+    [sessionId]
+  );
+
+  const query = useSupabaseQuery(queryFn);
+  const { refetch, setData } = query;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const unsubscribe = subscribeToSessionSets(sessionId, {
+      onChange: (change) => setData((sets) => applyChange(sets ?? [], change, sessionId)),
+      onResync: () => {
+        refetch();
+      },
+    });
+
+    // The socket is usually dropped while the app is in the background or offline
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        refetch();
+      }
+    });
+    const networkSubscription = Network.addNetworkStateListener(({ isConnected, isInternetReachable }) => {
+      if (isConnected && isInternetReachable !== false) {
+        refetch();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      appStateSubscription.remove();
+      networkSubscription.remove();
+    };
+  }, [sessionId, refetch, setData]);
+
+  return query;
+}
@@ -1,10 +1,12 @@
-import { useCallback, useEffect, useState } from 'react';
+import { Dispatch, SetStateAction, useCallback, useEffect, useState } from 'react';
 
 interface UseSupabaseQueryResult<T> {
   data: T | null;
   loading: boolean;
   error: string | null;
   refetch: () => Promise<T | null>;
+  // Patch the cached result locally, e.g. from a realtime event
+  setData: Dispatch<SetStateAction<T | null>>;
 }
 
 export function useSupabaseQuery<T>(
@@ -34,5 +36,5 @@ export function useSupabaseQuery<T>(
     fetchData();
   }, [fetchData]);
 
-  return { data, loading, error, refetch: fetchData };
+  return { data, loading, error, refetch: fetchData, setData };
 }
@@ -1,11 +1,9 @@
-import { useMemo } from 'react';
-import { getWorkoutSetsByDate } from '../services/workoutService';
-import { formatLocalDateYYYYMMDD } from '../types/workout';
-import { useSupabaseQuery } from './useSupabaseQuery';
+import { useWorkoutContext } from '../contexts/WorkoutContext';
+import { useSessionWorkoutSets } from './useSessionWorkoutSets';
 
+// "Today" is the active workout session, so a workout that runs past midnight
+// or happens while travelling stays in one list
 export function useTodaysWorkoutSets() {
-  const today = useMemo(() => formatLocalDateYYYYMMDD(), []);
-  const queryFn = useMemo(() => () => getWorkoutSetsByDate(today), [today]);
-  
-  return useSupabaseQuery(queryFn);
+  const { workoutData } = useWorkoutContext();
+  return useSessionWorkoutSets(workoutData.sessionId);
 }
@@ -0,0 +1,20 @@
+import { useCallback, useState } from 'react';
+import { getWarmupSettings, saveExerciseWarmup } from '../services/warmupService';
+import type { WarmupConfig } from '../types/warmup';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+export function useWarmupSettings() {
+  const { data, loading, setData } = useSupabaseQuery(getWarmupSettings);
+  const [saving, setSaving] = useState(false);
+
+  const saveExercise = useCallback(async (exerciseName: string, config: WarmupConfig) => {
+    try {
+      setSaving(true);
+      setData(await saveExerciseWarmup(exerciseName, config));
+    } finally {
+      setSaving(false);
+    }
+  }, [setData]);
+
+  return { settings: data ?? {}, loading, saving, saveExercise };
+}
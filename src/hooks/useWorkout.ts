@@ -1,51 +1,181 @@
+import * as Crypto from 'expo-crypto';
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { getCurrentUserId } from '../services/authService';
+import { enqueueWorkoutSession, flushPendingWorkoutSets } from '../services/setQueue';
+import { getUserItem, removeUserItem, setUserItem } from '../services/userStorage';
+import { getRecentWorkoutSessions } from '../services/workoutService';
+import type { WorkoutSession } from '../types/session';
+import type { WorkoutTemplate } from '../types/template';
+import { formatLocalDateYYYYMMDD } from '../types/workout';
 
 export type WorkoutStatus = 'idle' | 'active' | 'completed';
 
 export interface WorkoutData {
+  sessionId: string | null;
+  localDate: string | null; // the workout's date for every set, even past midnight
   startTime: Date | null;
   endTime: Date | null;
   duration: number;
   status: WorkoutStatus;
+  plan: WorkoutTemplate | null; // what the workout was started from, if anything
+  joined: boolean; // started on another device and followed here
 }
 
-export function useWorkout() {
-  const [workoutData, setWorkoutData] = useState<WorkoutData>({
-    startTime: null,
+// Active session survives an app restart so its duration is not lost; kept per account
+const ACTIVE_SESSION_KEY = 'kori.activeWorkoutSession';
+
+// Older open sessions were most likely abandoned, not still in progress
+const MAX_JOINABLE_SESSION_AGE = 12 * 60 * 60 * 1000;
+
+const IDLE_WORKOUT: WorkoutData = {
+  sessionId: null,
+  localDate: null,
+  startTime: null,
+  endTime: null,
+  duration: 0,
+  status: 'idle',
+  plan: null,
+  joined: false,
+};
+
+// A workout started on another device of the same account (e.g. a coach's
+// tablet following a client's phone), offered to be joined so its sets show up live
+async function findSessionInProgressElsewhere(): Promise<WorkoutSession | null> {
+  try {
+    const [latest] = await getRecentWorkoutSessions(1);
+    const isRecent = latest && Date.now() - new Date(latest.startedAt).getTime() < MAX_JOINABLE_SESSION_AGE;
+    return latest?.status === 'active' && isRecent ? latest : null;
+  } catch (err) {
+    console.warn('Failed to look up workout in progress:', err);
+    return null;
+  }
+}
+
+function persistSession(session: WorkoutSession): void {
+  enqueueWorkoutSession(session)
+    .then(() => flushPendingWorkoutSets())
+    .catch((err) => console.warn('Failed to save workout session:', err));
+}
+
+// Sessions stored before local dates or plans were recorded take the start day and no plan
+function withDefaults(stored: WorkoutSession): WorkoutSession {
+  return {
+    ...stored,
+    localDate: stored.localDate ?? formatLocalDateYYYYMMDD(new Date(stored.startedAt)),
+    templateId: stored.templateId ?? null,
+    plan: stored.plan ?? null,
+  };
+}
+
+function activeWorkoutData(session: WorkoutSession, joined: boolean): WorkoutData {
+  return {
+    sessionId: session.id,
+    localDate: session.localDate,
+    startTime: new Date(session.startedAt),
     endTime: null,
     duration: 0,
-    status: 'idle',
-  });
+    status: 'active',
+    plan: session.plan,
+    joined,
+  };
+}
+
+export function useWorkout() {
+  const [workoutData, setWorkoutData] = useState<WorkoutData>(IDLE_WORKOUT);
+  const sessionRef = useRef<WorkoutSession | null>(null);
+  // Another device's workout in progress; only joined if the user chooses to
+  const [sessionElsewhere, setSessionElsewhere] = useState<WorkoutSession | null>(null);
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  const startWorkout = useCallback(() => {
+  useEffect(() => {
+    getUserItem(ACTIVE_SESSION_KEY)
+      .then(async (raw) => {
+        const stored: WorkoutSession | null = raw ? JSON.parse(raw) : null;
+        // Stored before sessions were kept per account, by someone else
+        if (!stored || (stored.userId && stored.userId !== getCurrentUserId())) {
+          const elsewhere = await findSessionInProgressElsewhere();
+          if (!sessionRef.current) setSessionElsewhere(elsewhere);
+          return;
+        }
+        if (sessionRef.current) return;
+
+        const session = withDefaults(stored);
+        console.log('♻️ Resuming workout session:', session.id);
+        sessionRef.current = session;
+        setWorkoutData(activeWorkoutData(session, false));
+      })
+      .catch((err) => console.warn('Failed to restore workout session:', err));
+  }, []);
+
+  const startWorkout = useCallback((plan: WorkoutTemplate | null = null) => {
     const now = new Date();
-    setWorkoutData({
-      startTime: now,
-      endTime: null,
-      duration: 0,
+    const session: WorkoutSession = {
+      id: Crypto.randomUUID(),
+      startedAt: now.toISOString(),
+      localDate: formatLocalDateYYYYMMDD(now),
+      endedAt: null,
+      notes: null,
       status: 'active',
-    });
+      userId: getCurrentUserId(),
+      templateId: plan?.id ?? null,
+      plan,
+    };
+
+    sessionRef.current = session;
+    setUserItem(ACTIVE_SESSION_KEY, JSON.stringify(session)).catch((err) =>
+      console.warn('Failed to store active session:', err)
+    );
+    persistSession(session);
+
+    setSessionElsewhere(null);
+    setWorkoutData(activeWorkoutData(session, false));
   }, []);
 
-  const finishWorkout = useCallback(() => {
+  // Follows the other device's workout; not stored, so it is offered again after a restart
+  const joinWorkout = useCallback(() => {
+    if (!sessionElsewhere || sessionRef.current) return;
+
+    const session = withDefaults(sessionElsewhere);
+    console.log('🔗 Joining workout session:', session.id);
+    sessionRef.current = session;
+    setSessionElsewhere(null);
+    setWorkoutData(activeWorkoutData(session, true));
+  }, [sessionElsewhere]);
+
+  const finishWorkout = useCallback((notes?: string) => {
     const now = new Date();
+
+    if (sessionRef.current) {
+      const session: WorkoutSession = {
+        ...sessionRef.current,
+        endedAt: now.toISOString(),
+        notes: notes ?? sessionRef.current.notes,
+        status: 'completed',
+      };
+      sessionRef.current = session;
+      persistSession(session);
+    }
+    removeUserItem(ACTIVE_SESSION_KEY).catch((err) =>
+      console.warn('Failed to clear active session:', err)
+    );
+
     setWorkoutData((prev) => ({
       ...prev,
       endTime: now,
+      duration: prev.startTime
+        ? Math.floor((now.getTime() - prev.startTime.getTime()) / 1000)
+        : prev.duration,
       status: 'completed',
     }));
   }, []);
 
   const resetWorkout = useCallback(() => {
-    setWorkoutData({
-      startTime: null,
-      endTime: null,
-      duration: 0,
-      status: 'idle',
-    });
-  }, []);
+    // A joined workout is still in progress on the other device, so it stays on offer
+    if (workoutData.joined && workoutData.status === 'active') setSessionElsewhere(sessionRef.current);
+    sessionRef.current = null;
+    setWorkoutData(IDLE_WORKOUT);
+  }, [workoutData.joined, workoutData.status]);
 
   useEffect(() => {
     if (workoutData.status === 'active' && workoutData.startTime) {
@@ -78,7 +208,9 @@ export function useWorkout() {
 
   return {
     workoutData,
+    sessionElsewhere,
     startWorkout,
+    joinWorkout,
     finishWorkout,
     resetWorkout,
     formatDuration,
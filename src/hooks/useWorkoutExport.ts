@@ -0,0 +1,26 @@
+import { useCallback, useState } from 'react';
+import { exportWorkoutHistory, type ExportFormat, type ExportResult } from '../services/exportService';
+
+export function useWorkoutExport() {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<ExportResult | null>(null);
+
+  const exportHistory = useCallback(async (from: string, to: string, format: ExportFormat) => {
+    try {
+      setExporting(true);
+      setError(null);
+      const result = await exportWorkoutHistory(from, to, format);
+      setLastResult(result);
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export workouts');
+      console.error('Export error:', err);
+      return null;
+    } finally {
+      setExporting(false);
+    }
+  }, []);
+
+  return { exportHistory, exporting, error, lastResult };
+}
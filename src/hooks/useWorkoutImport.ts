@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react';
+import { usePreferencesContext } from '../contexts/PreferencesContext';
+import {
+  commitWorkoutImport,
+  pickImportFile,
+  previewWorkoutImport,
+  type ImportPreview,
+  type ImportResult,
+} from '../services/importService';
+import type { WeightUnit } from '../utils/units';
+
+// Pick a file, preview it, then commit. Changing the Strong unit re-runs the preview.
+export function useWorkoutImport() {
+  const { weightUnit } = usePreferencesContext();
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [strongUnit, setStrongUnit] = useState<WeightUnit>(weightUnit);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (fileText === null) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    previewWorkoutImport(fileText, strongUnit)
+      .then((next) => {
+        if (!cancelled) setPreview(next);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setPreview(null);
+        setError(err instanceof Error ? err.message : 'Failed to read import file');
+        console.error('Import preview error:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileText, strongUnit]);
+
+  const chooseFile = useCallback(async () => {
+    try {
+      setError(null);
+      setResult(null);
+      const text = await pickImportFile();
+      if (text !== null) {
+        setFileText(text);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read import file');
+      console.error('Import file error:', err);
+    }
+  }, []);
+
+  const commit = useCallback(async (skipConflictingDates: boolean) => {
+    if (!preview) return null;
+
+    try {
+      setImporting(true);
+      setError(null);
+      const imported = await commitWorkoutImport(preview, { skipConflictingDates });
+      setResult(imported);
+      setPreview(null);
+      setFileText(null);
+      return imported;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import workouts');
+      console.error('Import error:', err);
+      return null;
+    } finally {
+      setImporting(false);
+    }
+  }, [preview]);
+
+  return {
+    preview,
+    loading,
+    importing,
+    error,
+    result,
+    strongUnit,
+    setStrongUnit,
+    chooseFile,
+    commit,
+  };
+}
@@ -1,25 +1,63 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePreferencesContext } from '../contexts/PreferencesContext';
+import { useWorkoutContext } from '../contexts/WorkoutContext';
 import { stopRecording } from '../services';
+import { getCurrentUserId } from '../services/authService';
+import { createExercise, resolveExerciseName } from '../services/exerciseService';
+import { getExerciseRecords } from '../services/personalRecordService';
+import { getExerciseRest, getRestSettings, saveExerciseRest } from '../services/restService';
 import { stop } from '../services/tts';
-import { logWorkoutSet } from '../services/workoutService';
-import { formatLocalDateYYYYMMDD } from '../types/workout';
-import { toTitleCase, type ParsedWorkoutSet } from '../utils/workoutParsing';
+import { formatLocalDateYYYYMMDD, type LoadType, type WorkoutSet } from '../types/workout';
+import { findNewRecords, speakPersonalRecords, type ExerciseRecords } from '../utils/personalRecords';
+import { buildPlanProgress, speakNextUp, speakPlanStatus } from '../utils/planProgress';
+import type { ProgressionTarget } from '../utils/progression';
+import { speakSetSummary } from '../utils/setFormatting';
+import { toPounds, type WeightUnit } from '../utils/units';
+import { describeEffort, isWarmupSet, SET_TYPE_LABELS } from '../utils/setMetadata';
+import { speakWarmupSets, type WarmupSet } from '../utils/warmup';
+import type { ParsedWorkoutSet, SetMetadata, VoiceCommand } from '../utils/workoutParsing';
 import { useAudioLock } from './useAudioLock';
 import { useKoriSpeech } from './useKoriSpeech';
+import type { Recommendation } from './useRecommendations';
+import { useRestTimer, type RestCue } from './useRestTimer';
+import { useSupabaseQuery } from './useSupabaseQuery';
 import { useTodaysWorkoutSets } from './useTodaysWorkoutSets';
+import { useWorkoutSetEditor } from './useWorkoutSetEditor';
 import { useWorkoutSetListener } from './useWorkoutSetListener';
+import { useWorkoutSetQueue } from './useWorkoutSetQueue';
 import { useYesNoListener } from './useYesNoListener';
 
 type Phase = 'idle' | 'transcribing' | 'confirming' | 'awaiting_yesno' | 'logging';
 
-interface PendingSet {
+interface PendingSet extends SetMetadata {
   exerciseName: string;
-  weight: number;
-  reps: number;
+  exerciseId: string | null;
+  isNewExercise: boolean; // not in the catalog yet; added when the set is confirmed
+  weight: number; // pounds
+  weightUnit: WeightUnit; // unit the user spoke
+  loadType: LoadType;
+  reps: number | null;
+  durationSeconds: number | null;
 }
 
-export function useWorkoutSession() {
+interface UseWorkoutSessionOptions {
+  // Targets KORI reads out when announcing the next exercise
+  recommendations?: Recommendation[] | null;
+}
+
+export function useWorkoutSession({ recommendations = null }: UseWorkoutSessionOptions = {}) {
+  const { workoutData } = useWorkoutContext();
+  const { weightUnit, oneRepMaxFormula } = usePreferencesContext();
   const { data: todaySets, refetch: refetchSets } = useTodaysWorkoutSets();
+  const {
+    pendingSets: queuedSets,
+    failedSets,
+    enqueue,
+    sync: syncQueuedSets,
+    retryFailed: retryFailedSet,
+    discardFailed: discardFailedSet,
+  } = useWorkoutSetQueue({ onSynced: refetchSets });
+  const setEditor = useWorkoutSetEditor({ onChanged: refetchSets });
   const { runAudioTask } = useAudioLock();
   const { isSpeaking: isKoriSpeaking, speakWithIndicator } = useKoriSpeech();
   
@@ -28,15 +66,90 @@ export function useWorkoutSession() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [transcript, setTranscript] = useState<string>('');
+
+  // Records from earlier workouts, loaded once per exercise per session
+  const recordsCacheRef = useRef(new Map<string, Promise<ExerciseRecords | null>>());
+  // Exercises whose warm-up was read out this session, so each ramp is spoken once
+  const announcedWarmupsRef = useRef(new Set<string>());
+
+  const { data: restSettings, setData: setRestSettings } = useSupabaseQuery(getRestSettings);
+  // Cues are handled further down, once listening for the next set is defined
+  const {
+    timer: restTimer,
+    start: startRest,
+    adjust: adjustRest,
+    skip: skipRest,
+    finish: finishRest,
+  } = useRestTimer({ onCue: (cue) => handleRestCue(cue) });
+  // How long the user rested before the set being logged, once they tap to speak
+  const restBeforeSetRef = useRef<number | null>(null);
   
   const workoutSetListener = useWorkoutSetListener({
     todaySets,
+    weightUnit,
     onTranscript: setTranscript,
     onError: setError,
   });
   
   const yesNoListener = useYesNoListener();
   
+  const pendingSets = useMemo(
+    () => queuedSets.filter((set) => set.sessionId === workoutData.sessionId),
+    [queuedSets, workoutData.sessionId]
+  );
+
+  // A set may briefly be both synced and still queued; count it once
+  const loggedSets = useMemo(() => {
+    const syncedClientIds = new Set((todaySets || []).map((set) => set.clientId));
+    return [...(todaySets || []), ...pendingSets.filter((set) => !syncedClientIds.has(set.clientId))];
+  }, [todaySets, pendingSets]);
+
+  const planProgress = useMemo(
+    () => (workoutData.plan ? buildPlanProgress(workoutData.plan, loggedSets) : null),
+    [workoutData.plan, loggedSets]
+  );
+
+  const targetFor = useCallback(
+    (exerciseName: string): ProgressionTarget | null =>
+      recommendations?.find((rec) => rec.exerciseName === exerciseName) ?? null,
+    [recommendations]
+  );
+
+  useEffect(() => {
+    recordsCacheRef.current.clear();
+  }, [workoutData.sessionId, oneRepMaxFormula]);
+
+  useEffect(() => {
+    announcedWarmupsRef.current.clear();
+  }, [workoutData.sessionId]);
+
+  // The warm-up for an exercise without a working set yet, the first time it comes up; '' otherwise
+  const takeWarmupNote = useCallback(
+    (exerciseName: string, sets: Pick<WorkoutSet, 'exerciseName' | 'setType'>[]): string => {
+      const warmup = recommendations?.find((rec) => rec.exerciseName === exerciseName)?.warmup ?? [];
+      const started = sets.some((set) => set.exerciseName === exerciseName && !isWarmupSet(set));
+      if (warmup.length === 0 || started || announcedWarmupsRef.current.has(exerciseName)) return '';
+
+      announcedWarmupsRef.current.add(exerciseName);
+      return ` ${speakWarmupSets(exerciseName, warmup, weightUnit)}`;
+    },
+    [recommendations, weightUnit]
+  );
+
+  // Never blocks logging: without history (e.g. offline) there is simply no PR announcement
+  const loadExerciseRecords = useCallback((exerciseName: string) => {
+    const cached = recordsCacheRef.current.get(exerciseName);
+    if (cached) return cached;
+
+    const loading = getExerciseRecords(exerciseName, workoutData.sessionId, oneRepMaxFormula).catch((err) => {
+      console.warn(`Failed to load records for ${exerciseName}:`, err);
+      recordsCacheRef.current.delete(exerciseName);
+      return null;
+    });
+    recordsCacheRef.current.set(exerciseName, loading);
+    return loading;
+  }, [workoutData.sessionId, oneRepMaxFormula]);
+
   const isActive = isKoriSpeaking || workoutSetListener.isListening || yesNoListener.isListening || phase !== 'idle';
 
   // Cleanup on unmount
@@ -65,30 +178,72 @@ export function useWorkoutSession() {
       setLoading(true);
       setError(null);
 
-      const existingSets = (todaySets || []).filter(
-        (set) => set.exerciseName === setData.exerciseName
-      );
+      const existingSets = loggedSets.filter((set) => set.exerciseName === setData.exerciseName);
       const nextSetNumber = existingSets.length + 1;
 
-      await logWorkoutSet({
-        date: formatLocalDateYYYYMMDD(),
+      let exerciseId = setData.exerciseId;
+      if (setData.isNewExercise) {
+        try {
+          exerciseId = (await createExercise(setData.exerciseName)).id;
+        } catch (err) {
+          // Still log the set by name; the exercise can be added later
+          console.warn('Failed to add exercise to catalog:', err);
+        }
+      }
+
+      const loggedAt = new Date().toISOString();
+      // Saved on the device first so a dropped connection never loses the set
+      await enqueue({
+        date: workoutData.localDate ?? formatLocalDateYYYYMMDD(),
+        loggedAt,
         exerciseName: setData.exerciseName,
+        exerciseId,
         weight: setData.weight,
+        weightUnit: setData.weightUnit,
+        loadType: setData.loadType,
         reps: setData.reps,
+        durationSeconds: setData.durationSeconds,
         setNumber: nextSetNumber,
-        userId: null,
+        setType: setData.setType,
+        rpe: setData.rpe,
+        rir: setData.rir,
+        restSeconds: restBeforeSetRef.current,
+        userId: getCurrentUserId(),
+        sessionId: workoutData.sessionId,
       });
 
-      console.log('💾 Set logged, refetching sets...');
-      const freshSets = await refetchSets();
-      console.log('✅ Sets refetched, new count:', freshSets ? freshSets.length : 0);
-      
-      // Small delay to ensure state propagation
-      await new Promise(resolve => setTimeout(resolve, 100));
+      console.log('💾 Set saved locally, syncing...');
+      syncQueuedSets();
+
+      const previousRecords = await loadExerciseRecords(setData.exerciseName);
+      const newRecords = previousRecords
+        ? findNewRecords(setData, previousRecords, existingSets, oneRepMaxFormula)
+        : [];
+      const recordNote = newRecords.length > 0
+        ? ` ${speakPersonalRecords(setData.exerciseName, newRecords)}`
+        : '';
+
+      // A warm-up as the exercise's first set starts it: read out the rest of the ramp
+      const warmupNote = isWarmupSet(setData) && existingSets.length === 0
+        ? takeWarmupNote(setData.exerciseName, loggedSets)
+        : '';
+
+      // Finishing a planned exercise moves the plan on to the next one, warm-up first
+      let planNote = '';
+      if (workoutData.plan) {
+        const progress = buildPlanProgress(workoutData.plan, [...loggedSets, { ...setData, loggedAt }]);
+        const finished = progress.lastIndex !== null ? progress.exercises[progress.lastIndex] : null;
+        const next = progress.currentIndex !== null ? progress.exercises[progress.currentIndex] : null;
+        if (finished && !isWarmupSet(setData) && finished.doneSets === finished.targetSets) {
+          planNote = next
+            ? ` That's ${finished.exerciseName} done. ${speakNextUp(next, targetFor(next.exerciseName), weightUnit)}${takeWarmupNote(next.exerciseName, loggedSets)}`
+            : " That's everything in today's plan.";
+        }
+      }
       
       await runAudioTask(async () => {
         try {
-          await speakWithIndicator('Okay, logged.');
+          await speakWithIndicator(`Okay, logged.${recordNote}${warmupNote}${planNote}`);
           return true;
         } catch (err) {
           console.warn('TTS log confirmation error:', err);
@@ -96,6 +251,12 @@ export function useWorkoutSession() {
         }
       });
       
+      restBeforeSetRef.current = null;
+      startRest(
+        setData.exerciseName,
+        getExerciseRest(restSettings ?? {}, setData.exerciseName, workoutData.plan)
+      );
+
       setPendingSet(null);
       setTranscript('');
       setPhase('idle');
@@ -106,7 +267,7 @@ export function useWorkoutSession() {
     } finally {
       setLoading(false);
     }
-  }, [todaySets, refetchSets, runAudioTask, speakWithIndicator]);
+  }, [loggedSets, workoutData.sessionId, workoutData.localDate, workoutData.plan, weightUnit, oneRepMaxFormula, restSettings, targetFor, takeWarmupNote, startRest, enqueue, syncQueuedSets, loadExerciseRecords, runAudioTask, speakWithIndicator]);
 
   const rejectSetAndConfirm = useCallback(async () => {
     console.log('rejectSetAndConfirm called');
@@ -195,6 +356,71 @@ export function useWorkoutSession() {
     }
   }, [handleListenForYesNo, logSetAndConfirm, rejectSetAndConfirm, runAudioTask, speakWithIndicator]);
 
+  const undoLastSet = useCallback(async () => {
+    // Queued sets are always newer than synced ones
+    const unsyncedSets = pendingSets.filter(
+      (pending) => !(todaySets || []).some((set) => set.clientId === pending.clientId)
+    );
+    const lastSet = unsyncedSets.length > 0
+      ? unsyncedSets[unsyncedSets.length - 1]
+      : (todaySets || []).reduce<WorkoutSet | null>(
+          (latest, set) => (!latest || set.id > latest.id ? set : latest),
+          null
+        );
+
+    let message: string;
+    if (!lastSet) {
+      message = "There's no set to undo.";
+    } else {
+      try {
+        await setEditor.deleteSet(lastSet);
+        message = `Removed ${lastSet.exerciseName}, set ${lastSet.setNumber}.`;
+      } catch {
+        message = 'Sorry, I could not remove that set.';
+      }
+    }
+
+    await runAudioTask(async () => {
+      try {
+        await speakWithIndicator(message);
+      } catch (err) {
+        console.warn('TTS undo confirmation error:', err);
+      }
+    });
+  }, [pendingSets, todaySets, setEditor, runAudioTask, speakWithIndicator]);
+
+  // Answers "what's next?": where the user is in the plan and what follows
+  const announceNextUp = useCallback(async () => {
+    const message = planProgress
+      ? speakPlanStatus(planProgress, targetFor, weightUnit)
+      : "There's no plan for this workout, so log whatever you like.";
+
+    await runAudioTask(async () => {
+      try {
+        stop();
+        await speakWithIndicator(message);
+      } catch (err) {
+        console.warn('TTS plan status error:', err);
+      }
+    });
+  }, [planProgress, targetFor, weightUnit, runAudioTask, speakWithIndicator]);
+
+  const handleVoiceCommand = useCallback(async (command: VoiceCommand) => {
+    await new Promise(r => setTimeout(r, 300));
+
+    switch (command) {
+      case 'undo_last_set':
+        await undoLastSet();
+        break;
+      case 'whats_next':
+        await announceNextUp();
+        break;
+    }
+
+    setTranscript('');
+    setPhase('idle');
+  }, [undoLastSet, announceNextUp]);
+
   const handleListenForWorkoutSet = useCallback(async () => {
     const result = await runAudioTask(async () => {
       setPhase('transcribing');
@@ -213,21 +439,50 @@ export function useWorkoutSession() {
     
     await new Promise(resolve => setTimeout(resolve, 500));
     
-    const titleCasedExercise = toTitleCase(parsedSet.exerciseName);
-
-    const setData: PendingSet = {
-      exerciseName: titleCasedExercise,
-      weight: parsedSet.weight,
+    const unit = parsedSet.unit ?? weightUnit;
+    const loggedSet = {
+      weight: toPounds(parsedSet.weight, unit),
+      weightUnit: unit,
+      loadType: parsedSet.loadType,
       reps: parsedSet.reps,
+      durationSeconds: parsedSet.durationSeconds,
+      setType: parsedSet.setType,
+      rpe: parsedSet.rpe,
+      rir: parsedSet.rir,
     };
 
+    // "Leg Presses" and "Legpress" both resolve to the catalog's "Leg Press"
+    const match = await resolveExerciseName(parsedSet.exerciseName);
+    const setData: PendingSet = match.type === 'matched'
+      ? {
+          exerciseName: match.exercise.name,
+          exerciseId: match.exercise.id,
+          isNewExercise: false,
+          ...loggedSet,
+        }
+      : {
+          exerciseName: match.suggestedName,
+          exerciseId: null,
+          isNewExercise: true,
+          ...loggedSet,
+        };
+    const setTypeNote = setData.setType !== 'working' ? `${SET_TYPE_LABELS[setData.setType]}, ` : '';
+    const effort = describeEffort(setData);
+    const effortNote = effort ? `, ${effort}` : '';
+    const newExerciseNote = setData.isNewExercise
+      ? ` ${setData.exerciseName} is a new exercise, so I'll add it to your list.`
+      : '';
+
     setPendingSet(setData);
     setPhase('confirming');
 
+    // Fetched while KORI reads the set back, so a PR can be announced right after logging
+    loadExerciseRecords(setData.exerciseName);
+
     const speakResult = await runAudioTask(async () => {
       try {
         await speakWithIndicator(
-          `I heard ${titleCasedExercise}, ${parsedSet.weight} pounds for ${parsedSet.reps} reps. Say yes to log it, or no to skip.`
+          `I heard ${setTypeNote}${setData.exerciseName}, ${speakSetSummary(setData, setData.weightUnit)}${effortNote}.${newExerciseNote} Say yes to log it, or no to skip.`
         );
         return true;
       } catch (err) {
@@ -242,17 +497,26 @@ export function useWorkoutSession() {
     if (speakResult) {
       await handleAutoYesNo(setData);
     }
-  }, [runAudioTask, speakWithIndicator, handleAutoYesNo]);
+  }, [weightUnit, loadExerciseRecords, runAudioTask, speakWithIndicator, handleAutoYesNo]);
 
   const handleTapToSpeak = useCallback(async () => {
     setError(null);
     setTranscript('');
+
+    // Rest ends when the user is ready for the next set
+    const rested = finishRest();
+    if (rested !== null) {
+      restBeforeSetRef.current = rested;
+    }
     
     await runAudioTask(async () => {
       stop();
       await speakWithIndicator("I'm listening. Say your set");
     });
     
+    const exampleSet = weightUnit === 'kg'
+      ? 'Leg Press, 70 kilos, for 10 reps'
+      : 'Leg Press, 160 pounds, for 10 reps';
     const maxAttempts = 4;
     let attemptCount = 0;
     let result = await handleListenForWorkoutSet();
@@ -265,6 +529,11 @@ export function useWorkoutSession() {
         return;
       }
       
+      if (result.type === 'command') {
+        await handleVoiceCommand(result.command);
+        return;
+      }
+      
       if (result.type === 'error') {
         await new Promise(r => setTimeout(r, 800));
         stop();
@@ -292,7 +561,7 @@ export function useWorkoutSession() {
           await new Promise(r => setTimeout(r, 800));
           stop();
           try {
-            await speakWithIndicator("I couldn't detect a valid set after several tries. Please tap again and say something like: Leg Press, 160 pounds, for 10 reps.");
+            await speakWithIndicator(`I couldn't detect a valid set after several tries. Please tap again and say something like: ${exampleSet}.`);
           } catch (err) {
             console.error('Final failure speak failed:', err);
           }
@@ -304,9 +573,9 @@ export function useWorkoutSession() {
         
         try {
           if (attemptCount === 1) {
-            await speakWithIndicator("No valid set detected. Try saying: Leg Press, 160 pounds, for 10 reps.");
+            await speakWithIndicator(`No valid set detected. Try saying: ${exampleSet}.`);
           } else {
-            await speakWithIndicator("Still no valid set. Try again. Say something like: Leg Press, 160 pounds, for 10 reps.");
+            await speakWithIndicator(`Still no valid set. Try again. Say something like: ${exampleSet}.`);
           }
         } catch (err) {
           console.error(`Attempt ${attemptCount} feedback failed:`, err);
@@ -316,7 +585,71 @@ export function useWorkoutSession() {
         result = await handleListenForWorkoutSet();
       }
     }
-  }, [runAudioTask, speakWithIndicator, handleListenForWorkoutSet, processValidSet]);
+  }, [weightUnit, finishRest, runAudioTask, speakWithIndicator, handleListenForWorkoutSet, processValidSet, handleVoiceCommand]);
+
+  // Only spoken while KORI isn't busy with a set; starting to listen needs a yes
+  const handleRestCue = useCallback(async (cue: RestCue) => {
+    if (phase !== 'idle') return;
+
+    if (cue === 'thirty-seconds') {
+      await runAudioTask(async () => {
+        try {
+          await speakWithIndicator('30 seconds left.');
+        } catch (err) {
+          console.warn('TTS rest cue error:', err);
+        }
+      });
+      return;
+    }
+
+    const offered = await runAudioTask(async () => {
+      try {
+        await speakWithIndicator('Time for your next set. Want me to listen?');
+        return true;
+      } catch (err) {
+        console.warn('TTS rest over error:', err);
+        return false;
+      }
+    });
+    if (!offered) return;
+
+    const answer = await handleListenForYesNo();
+    if (answer === 'yes') {
+      await handleTapToSpeak();
+    } else if (answer === 'no') {
+      await runAudioTask(async () => {
+        try {
+          await speakWithIndicator("Okay, tap when you're ready.");
+        } catch (err) {
+          console.warn('TTS rest decline error:', err);
+        }
+      });
+    }
+  }, [phase, runAudioTask, speakWithIndicator, handleListenForYesNo, handleTapToSpeak]);
+
+  // Saves the adjusted rest as the exercise's default
+  const rememberRest = useCallback(async () => {
+    if (!restTimer) return;
+
+    try {
+      setRestSettings(await saveExerciseRest(restTimer.exerciseName, restTimer.durationSeconds));
+    } catch (err) {
+      console.warn('Failed to save rest:', err);
+    }
+  }, [restTimer, setRestSettings]);
+
+  // Read out when the user starts an exercise, before its first working set
+  const announceWarmup = useCallback(async (exerciseName: string, warmup: WarmupSet[]) => {
+    announcedWarmupsRef.current.add(exerciseName);
+    await runAudioTask(async () => {
+      try {
+        stop();
+        await speakWithIndicator(speakWarmupSets(exerciseName, warmup, weightUnit));
+      } catch (err) {
+        console.warn('TTS warm-up error:', err);
+      }
+    });
+  }, [weightUnit, runAudioTask, speakWithIndicator]);
 
   const handleYes = useCallback(async () => {
     if (!pendingSet) {
@@ -332,6 +665,7 @@ export function useWorkoutSession() {
 
   const cleanup = useCallback(async () => {
     stop();
+    finishRest();
     
     if (workoutSetListener.isListening) {
       try {
@@ -340,25 +674,44 @@ export function useWorkoutSession() {
         console.warn('Stop recording error:', err);
       }
     }
-  }, [workoutSetListener.isListening]);
+  }, [workoutSetListener.isListening, finishRest]);
 
   return {
     // State
     phase,
     pendingSet,
     loading,
-    error,
+    error: error ?? setEditor.error,
     transcript,
     todaySets,
+    pendingSets,
+    failedSets,
     isKoriSpeaking,
     isListeningForSet: workoutSetListener.isListening,
     isListeningForYesNo: yesNoListener.isListening,
     isActive,
+    isSavingSet: setEditor.saving,
+    planProgress,
+    restTimer,
+    // The rest the exercise would start with next time
+    defaultRestSeconds: restTimer
+      ? getExerciseRest(restSettings ?? {}, restTimer.exerciseName, workoutData.plan)
+      : null,
     
     // Actions
     handleTapToSpeak,
     handleYes,
     handleNo,
+    editSet: setEditor.editSet,
+    deleteSet: setEditor.deleteSet,
+    undoLastSet,
+    retryFailedSet,
+    discardFailedSet,
+    announceWarmup,
+    announceNextUp,
+    adjustRest,
+    skipRest,
+    rememberRest,
     cleanup,
   };
 }
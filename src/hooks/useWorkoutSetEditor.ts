@@ -0,0 +1,90 @@
+import { useCallback, useState } from 'react';
+import { resolveExerciseName } from '../services/exerciseService';
+import { removeQueuedWorkoutSet, updateQueuedWorkoutSet } from '../services/setQueue';
+import { deleteWorkoutSet, getSyncedWorkoutSet, updateWorkoutSet } from '../services/workoutService';
+import {
+  isPendingWorkoutSet,
+  type LoggedWorkoutSet,
+  type PendingWorkoutSet,
+  type UpdateWorkoutSetInput,
+  type WorkoutSet,
+} from '../types/workout';
+
+// A typed name is matched to the catalog like a spoken one; edits without a new name keep it
+async function withCatalogExercise(changes: UpdateWorkoutSetInput): Promise<UpdateWorkoutSetInput> {
+  if (changes.exerciseName === undefined) {
+    return changes;
+  }
+
+  const match = await resolveExerciseName(changes.exerciseName);
+  return match.type === 'matched'
+    ? { ...changes, exerciseName: match.exercise.name, exerciseId: match.exercise.id }
+    : { ...changes, exerciseName: match.suggestedName, exerciseId: null };
+}
+
+// A queued set can sync while it is being edited; the change then goes to the saved row
+async function requireSyncedSet(set: PendingWorkoutSet): Promise<WorkoutSet> {
+  const synced = await getSyncedWorkoutSet(set);
+  if (!synced) {
+    throw new Error(`Failed to find synced set ${set.clientId}`);
+  }
+  return synced;
+}
+
+interface UseWorkoutSetEditorOptions {
+  onChanged?: () => void | Promise<unknown>;
+}
+
+// Edits and deletes logged sets, whether they are synced or still queued on the device
+export function useWorkoutSetEditor(options: UseWorkoutSetEditorOptions = {}) {
+  const { onChanged } = options;
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const editSet = useCallback(async (set: LoggedWorkoutSet, edits: UpdateWorkoutSetInput) => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const changes = await withCatalogExercise(edits);
+
+      if (isPendingWorkoutSet(set) && (await updateQueuedWorkoutSet(set.clientId, changes))) {
+        return;
+      }
+      await updateWorkoutSet(isPendingWorkoutSet(set) ? await requireSyncedSet(set) : set, changes);
+      await onChanged?.();
+    } catch (err) {
+      setError('Failed to update set');
+      console.error('Update set error:', err);
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  }, [onChanged]);
+
+  const deleteSet = useCallback(async (set: LoggedWorkoutSet) => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (isPendingWorkoutSet(set) && (await removeQueuedWorkoutSet(set.clientId))) {
+        return;
+      }
+      await deleteWorkoutSet(isPendingWorkoutSet(set) ? await requireSyncedSet(set) : set);
+      await onChanged?.();
+    } catch (err) {
+      setError('Failed to delete set');
+      console.error('Delete set error:', err);
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  }, [onChanged]);
+
+  return {
+    saving,
+    error,
+    editSet,
+    deleteSet,
+  };
+}
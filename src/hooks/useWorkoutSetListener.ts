@@ -1,15 +1,17 @@
 import { useCallback, useState } from 'react';
 import { listenForWorkoutSet, type ListenResult } from '../services/workoutSetListener';
 import type { WorkoutSet } from '../types/workout';
+import type { WeightUnit } from '../utils/units';
 
 interface UseWorkoutSetListenerOptions {
   todaySets: WorkoutSet[] | null;
+  weightUnit?: WeightUnit;
   onTranscript?: (transcript: string) => void;
   onError?: (error: string) => void;
 }
 
 export function useWorkoutSetListener(options: UseWorkoutSetListenerOptions) {
-  const { todaySets, onTranscript, onError } = options;
+  const { todaySets, weightUnit, onTranscript, onError } = options;
   const [isListening, setIsListening] = useState(false);
 
   const startListening = useCallback(async (): Promise<ListenResult> => {
@@ -18,6 +20,7 @@ export function useWorkoutSetListener(options: UseWorkoutSetListenerOptions) {
     try {
       const result = await listenForWorkoutSet({
         todaySets,
+        weightUnit,
         onTranscript,
       });
 
@@ -36,7 +39,7 @@ export function useWorkoutSetListener(options: UseWorkoutSetListenerOptions) {
     } finally {
       setIsListening(false);
     }
-  }, [todaySets, onTranscript, onError]);
+  }, [todaySets, weightUnit, onTranscript, onError]);
 
   return {
     isListening,
@@ -0,0 +1,124 @@
+import * as Network from 'expo-network';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  discardFailedWorkoutSet,
+  enqueueWorkoutSet,
+  flushPendingWorkoutSets,
+  getFailedWorkoutSets,
+  getPendingWorkoutSets,
+  retryFailedWorkoutSet,
+  subscribeToFailedWorkoutSets,
+  subscribeToPendingWorkoutSets,
+} from '../services/setQueue';
+import type { PendingWorkoutSet } from '../types/workout';
+
+const BASE_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+interface UseWorkoutSetQueueOptions {
+  onSynced?: () => void | Promise<unknown>;
+}
+
+export function useWorkoutSetQueue(options: UseWorkoutSetQueueOptions = {}) {
+  const [pendingSets, setPendingSets] = useState<PendingWorkoutSet[]>([]);
+  // Sets the server rejected; they stay on the device until retried or discarded
+  const [failedSets, setFailedSets] = useState<PendingWorkoutSet[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const onSyncedRef = useRef(options.onSynced);
+  onSyncedRef.current = options.onSynced;
+
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retryCountRef = useRef(0);
+
+  const clearRetry = () => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+  };
+
+  const sync = useCallback(async () => {
+    clearRetry();
+    setIsSyncing(true);
+
+    try {
+      const { synced, remaining } = await flushPendingWorkoutSets();
+
+      if (synced.length > 0) {
+        console.log(`☁️ Synced ${synced.length} queued set(s)`);
+        await onSyncedRef.current?.();
+      }
+
+      if (remaining > 0) {
+        // Exponential backoff until connectivity returns
+        const delay = Math.min(BASE_RETRY_DELAY * 2 ** retryCountRef.current, MAX_RETRY_DELAY);
+        retryCountRef.current += 1;
+        retryTimerRef.current = setTimeout(() => {
+          sync();
+        }, delay);
+      } else {
+        retryCountRef.current = 0;
+      }
+    } catch (err) {
+      console.warn('Set queue sync error:', err);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    getPendingWorkoutSets().then(setPendingSets).catch((err) => {
+      console.warn('Failed to load pending sets:', err);
+    });
+    const unsubscribe = subscribeToPendingWorkoutSets(setPendingSets);
+    getFailedWorkoutSets().then(setFailedSets).catch((err) => {
+      console.warn('Failed to load rejected sets:', err);
+    });
+    const unsubscribeFailed = subscribeToFailedWorkoutSets(setFailedSets);
+
+    sync();
+
+    const networkSubscription = Network.addNetworkStateListener(({ isConnected, isInternetReachable }) => {
+      if (isConnected && isInternetReachable !== false) {
+        retryCountRef.current = 0;
+        sync();
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        sync();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeFailed();
+      networkSubscription.remove();
+      appStateSubscription.remove();
+      clearRetry();
+    };
+  }, [sync]);
+
+  const retryFailed = useCallback(async (set: PendingWorkoutSet) => {
+    await retryFailedWorkoutSet(set.clientId);
+    retryCountRef.current = 0;
+    await sync();
+  }, [sync]);
+
+  const discardFailed = useCallback(async (set: PendingWorkoutSet) => {
+    await discardFailedWorkoutSet(set.clientId);
+  }, []);
+
+  return {
+    pendingSets,
+    failedSets,
+    isSyncing,
+    enqueue: enqueueWorkoutSet,
+    sync,
+    retryFailed,
+    discardFailed,
+  };
+}
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { getWorkoutSetsInRange } from '../services/workoutService';
+import { DEFAULT_PAGE_SIZE } from '../types/pagination';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+// Dates are inclusive YYYY-MM-DD; pass the previous page's nextOffset to page through
+export function useWorkoutSetsInRange(
+  from: string,
+  to: string,
+  limit = DEFAULT_PAGE_SIZE,
+  offset = 0
+) {
+  const queryFn = useMemo(
+    () => () => getWorkoutSetsInRange(from, to, { limit, offset }),
+    [from, to, limit, offset]
+  );
+
+  return useSupabaseQuery(queryFn);
+}
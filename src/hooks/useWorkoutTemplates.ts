@@ -0,0 +1,57 @@
+import { useCallback, useState } from 'react';
+import {
+  deleteWorkoutTemplate,
+  getSelectedTemplateId,
+  getWorkoutTemplates,
+  saveWorkoutTemplate,
+  setSelectedTemplateId,
+} from '../services/templateService';
+import type { WorkoutTemplate } from '../types/template';
+import { useSupabaseQuery } from './useSupabaseQuery';
+
+async function fetchTemplates() {
+  const [templates, selectedId] = await Promise.all([getWorkoutTemplates(), getSelectedTemplateId()]);
+  return { templates, selectedId };
+}
+
+// The picked template survives restarts; with none picked (or it was deleted) the first one is used
+export function useWorkoutTemplates() {
+  const { data, loading, error, setData } = useSupabaseQuery(fetchTemplates);
+  const [saving, setSaving] = useState(false);
+
+  const templates = data?.templates ?? [];
+  const selectedTemplate =
+    templates.find((template) => template.id === data?.selectedId) ?? templates[0] ?? null;
+
+  const selectTemplate = useCallback(async (id: string) => {
+    setData((prev) => (prev ? { ...prev, selectedId: id } : prev));
+    try {
+      await setSelectedTemplateId(id);
+    } catch (err) {
+      console.warn('Failed to remember selected template:', err);
+    }
+  }, [setData]);
+
+  const saveTemplate = useCallback(async (template: WorkoutTemplate) => {
+    try {
+      setSaving(true);
+      const saved = await saveWorkoutTemplate(template);
+      setData((prev) => ({ templates: saved, selectedId: prev?.selectedId ?? null }));
+      await selectTemplate(template.id);
+    } finally {
+      setSaving(false);
+    }
+  }, [setData, selectTemplate]);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    try {
+      setSaving(true);
+      const remaining = await deleteWorkoutTemplate(id);
+      setData((prev) => ({ templates: remaining, selectedId: prev?.selectedId ?? null }));
+    } finally {
+      setSaving(false);
+    }
+  }, [setData]);
+
+  return { templates, selectedTemplate, loading, error, saving, selectTemplate, saveTemplate, deleteTemplate };
+}
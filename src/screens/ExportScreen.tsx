@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useWorkoutExport } from '../hooks';
+import type { ExportFormat } from '../services/exportService';
+import { borderRadius, colors, spacing, typography } from '../theme';
+import { formatLocalDateYYYYMMDD } from '../types/workout';
+
+interface ExportScreenProps {
+  onNavigate: () => void;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const RANGE_PRESETS: { label: string; days: number | null }[] = [
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last year', days: 365 },
+  { label: 'All time', days: null },
+];
+
+// Far enough back to cover any history, including imported sets
+const ALL_TIME_FROM = '1970-01-01';
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return formatLocalDateYYYYMMDD(date);
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+}
+
+export default function ExportScreen({ onNavigate }: ExportScreenProps) {
+  const { exportHistory, exporting, error, lastResult } = useWorkoutExport();
+  const [from, setFrom] = useState(() => daysAgo(30));
+  const [to, setTo] = useState(() => formatLocalDateYYYYMMDD());
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const applyPreset = (days: number | null) => {
+    setFrom(days === null ? ALL_TIME_FROM : daysAgo(days));
+    setTo(formatLocalDateYYYYMMDD());
+    setValidationError(null);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const start = from.trim();
+    const end = to.trim();
+    if (!isValidDate(start) || !isValidDate(end)) {
+      setValidationError('Enter dates as YYYY-MM-DD');
+      return;
+    }
+    if (start > end) {
+      setValidationError('The start date must be on or before the end date');
+      return;
+    }
+
+    setValidationError(null);
+    await exportHistory(start, end, format);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.title}>Export Workouts</Text>
+        <Text style={styles.subtitle}>
+          One row per set, with weights in the unit you logged them in.
+        </Text>
+
+        <View style={styles.presetRow}>
+          {RANGE_PRESETS.map((preset) => (
+            <TouchableOpacity
+              key={preset.label}
+              style={styles.presetChip}
+              activeOpacity={0.8}
+              onPress={() => applyPreset(preset.days)}
+            >
+              <Text style={styles.presetText}>{preset.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>From</Text>
+        <TextInput
+          style={styles.input}
+          value={from}
+          onChangeText={setFrom}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor={colors.text.tertiary}
+          autoCapitalize="none"
+          keyboardType="numbers-and-punctuation"
+        />
+
+        <Text style={styles.label}>To</Text>
+        <TextInput
+          style={styles.input}
+          value={to}
+          onChangeText={setTo}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor={colors.text.tertiary}
+          autoCapitalize="none"
+          keyboardType="numbers-and-punctuation"
+        />
+
+        <TouchableOpacity
+          style={styles.primaryButton}
+          activeOpacity={0.8}
+          onPress={() => handleExport('csv')}
+          disabled={exporting}
+        >
+          <Text style={styles.primaryButtonText}>{exporting ? 'Exporting...' : 'Export CSV'}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.primaryButton}
+          activeOpacity={0.8}
+          onPress={() => handleExport('json')}
+          disabled={exporting}
+        >
+          <Text style={styles.primaryButtonText}>{exporting ? 'Exporting...' : 'Export JSON'}</Text>
+        </TouchableOpacity>
+
+        {(validationError || error) && (
+          <Text style={styles.statusText}>{validationError || error}</Text>
+        )}
+
+        {!validationError && !error && lastResult && (
+          <Text style={styles.statusText}>
+            {lastResult.shared
+              ? `Exported ${lastResult.setCount} set(s).`
+              : `Saved ${lastResult.setCount} set(s) to ${lastResult.uri}`}
+          </Text>
+        )}
+
+        <TouchableOpacity style={styles.secondaryActions} activeOpacity={0.8} onPress={onNavigate}>
+          <Text style={styles.secondaryText}>Back</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  scrollContent: {
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing['3xl'],
+    paddingBottom: spacing['4xl'],
+  },
+  title: {
+    ...typography.h3,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  subtitle: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing['2xl'],
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  presetChip: {
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  presetText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+  label: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    width: '100%',
+    maxWidth: 460,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    ...typography.body,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+    width: '100%',
+    maxWidth: 460,
+    marginBottom: spacing.lg,
+  },
+  primaryButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    width: '100%',
+    maxWidth: 460,
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  primaryButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
+  statusText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  secondaryActions: {
+    marginTop: spacing.lg,
+  },
+  secondaryText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textDecorationLine: 'underline',
+  },
+});
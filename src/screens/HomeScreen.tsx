@@ -1,20 +1,104 @@
-import React, { useRef, useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { Image, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useWorkoutContext } from '../contexts';
-import { useRecommendations } from '../hooks';
+import { useAuthContext, usePreferencesContext, useWorkoutContext } from '../contexts';
+import {
+  EquipmentModal,
+  ProgressionSettingsModal,
+  TemplateEditorModal,
+  WarmupSettingsModal,
+} from '../components';
+import {
+  useEquipmentSettings,
+  useProgramSchedule,
+  useProgressionSettings,
+  useRecommendations,
+  useWarmupSettings,
+  useWorkoutTemplates,
+} from '../hooks';
+import { getExerciseProgression } from '../services/progressionService';
+import { createTemplateId } from '../services/templateService';
+import { getExerciseWarmup } from '../services/warmupService';
 import { speak, stop } from '../services/tts';
 import { borderRadius, colors, spacing, typography } from '../theme';
+import type { ProgressionConfig } from '../types/progression';
+import type { WorkoutTemplate } from '../types/template';
+import type { WarmupConfig } from '../types/warmup';
+import { describeDaysAgo } from '../types/workout';
+import type { EquipmentProfile } from '../types/equipment';
+import { ONE_REP_MAX_FORMULA_LABELS } from '../utils/oneRepMax';
+import { formatPlateBreakdown, speakPlateBreakdown } from '../utils/plates';
+import { formatCycleSets, formatProgramDay } from '../utils/programs';
+import { PROGRESSION_STRATEGIES } from '../utils/progression';
+import {
+  formatRecommendationReason,
+  formatTargetChange,
+  speakRecommendationReason,
+} from '../utils/recommendationRationale';
+import { formatSetSummary, speakSetSummary } from '../utils/setFormatting';
+import { formatSetMetadata } from '../utils/setMetadata';
+import { describeTemplateExercise } from '../utils/templates';
+import { unitLabel } from '../utils/units';
+import { formatWarmupSets } from '../utils/warmup';
 
 interface HomeScreenProps {
   onNavigate: () => void;
+  onOpenAccount: () => void;
+  onOpenExport: () => void;
+  onOpenImport: () => void;
 }
 
-const EXERCISES = ['Leg Press', 'Leg Extension', 'Hamstring Curl', 'Calf Raise'];
-
-export default function HomeScreen({ onNavigate }: HomeScreenProps) {
-  const { startWorkout } = useWorkoutContext();
-  const { data: recommendations, loading, error } = useRecommendations();
+export default function HomeScreen({ onNavigate, onOpenAccount, onOpenExport, onOpenImport }: HomeScreenProps) {
+  const { authEnabled, user, isGuest, signOut } = useAuthContext();
+  const {
+    weightUnit,
+    setWeightUnit,
+    oneRepMaxFormula,
+    setOneRepMaxFormula,
+    speakRecommendationReasons,
+    setSpeakRecommendationReasons,
+  } = usePreferencesContext();
+  const { startWorkout, joinWorkout, sessionElsewhere, isActive: isWorkoutActive } = useWorkoutContext();
+  const {
+    templates,
+    selectedTemplate,
+    loading: loadingTemplates,
+    saving: savingTemplate,
+    selectTemplate,
+    saveTemplate,
+    deleteTemplate,
+  } = useWorkoutTemplates();
+  const [editingTemplate, setEditingTemplate] = useState<WorkoutTemplate | null>(null);
+  const { programs, today: programDay, loading: loadingProgram, selectProgram } = useProgramSchedule();
+  // An active program decides the day; otherwise the picked template does
+  const todaysTemplate = loadingProgram ? null : programDay?.template ?? selectedTemplate;
+  const plannedExercises = useMemo(
+    () => todaysTemplate?.exercises.map((exercise) => exercise.exerciseName) ?? [],
+    [todaysTemplate]
+  );
+  const { data: recommendations, loading, error, refetch: refetchRecommendations } = useRecommendations(
+    plannedExercises,
+    programDay
+  );
+  const { settings: progressionSettings, saving: savingProgression, saveExercise } = useProgressionSettings();
+  const [progressionExercise, setProgressionExercise] = useState<string | null>(null);
+  const [expandedExercise, setExpandedExercise] = useState<string | null>(null);
+  const { getProfile, saving: savingEquipment, save: saveEquipment } = useEquipmentSettings();
+  const [equipmentExercise, setEquipmentExercise] = useState<string | null>(null);
+  const { settings: warmupSettings, saving: savingWarmup, saveExercise: saveWarmup } = useWarmupSettings();
+  const [warmupExercise, setWarmupExercise] = useState<string | null>(null);
+  const warmupConfig = useMemo(
+    () => getExerciseWarmup(warmupSettings, warmupExercise ?? ''),
+    [warmupSettings, warmupExercise]
+  );
+  const equipmentProfile = useMemo(
+    () => (equipmentExercise ? getProfile(equipmentExercise) : null),
+    [getProfile, equipmentExercise]
+  );
+  const progressionConfig = useMemo(
+    () => getExerciseProgression(progressionSettings, progressionExercise ?? ''),
+    [progressionSettings, progressionExercise]
+  );
   
   const [isPlaying, setIsPlaying] = useState(false);
   const shouldContinueSpeaking = useRef(true);
@@ -55,7 +139,11 @@ export default function HomeScreen({ onNavigate }: HomeScreenProps) {
           return;
         }
         
-        await speak(`${rec.exerciseName}. ${rec.weight} pounds for ${rec.reps} reps.`);
+        const reason = speakRecommendationReasons
+          ? ` ${speakRecommendationReason(rec, rec.rationale, weightUnit)}.`
+          : '';
+        const plates = rec.plates ? ` Load ${speakPlateBreakdown(rec.plates, weightUnit)}.` : '';
+        await speak(`${rec.exerciseName}. ${speakSetSummary(rec, weightUnit)}.${plates}${reason}`);
         if (!shouldContinueSpeaking.current) {
           setIsPlaying(false);
           return;
@@ -72,14 +160,119 @@ export default function HomeScreen({ onNavigate }: HomeScreenProps) {
     }
   };
 
+  const handleSaveProgression = async (config: ProgressionConfig) => {
+    if (!progressionExercise) return;
+    try {
+      await saveExercise(progressionExercise, config);
+      setProgressionExercise(null);
+      await refetchRecommendations();
+    } catch (err) {
+      console.warn('Failed to save progression settings:', err);
+    }
+  };
+
+  const handleSaveEquipment = async (profile: EquipmentProfile, scope: 'exercise' | 'gym') => {
+    if (!equipmentExercise) return;
+    try {
+      await saveEquipment(equipmentExercise, profile, scope);
+      setEquipmentExercise(null);
+      await refetchRecommendations();
+    } catch (err) {
+      console.warn('Failed to save equipment:', err);
+    }
+  };
+
+  const handleSaveWarmup = async (config: WarmupConfig) => {
+    if (!warmupExercise) return;
+    try {
+      await saveWarmup(warmupExercise, config);
+      setWarmupExercise(null);
+      await refetchRecommendations();
+    } catch (err) {
+      console.warn('Failed to save warm-up settings:', err);
+    }
+  };
+
+  const handleSaveTemplate = async (template: WorkoutTemplate) => {
+    try {
+      await saveTemplate(template);
+      setEditingTemplate(null);
+    } catch (err) {
+      console.warn('Failed to save workout template:', err);
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    try {
+      await deleteTemplate(id);
+      setEditingTemplate(null);
+    } catch (err) {
+      console.warn('Failed to delete workout template:', err);
+    }
+  };
+
+  const handleSelectProgram = async (programId: string | null) => {
+    try {
+      await selectProgram(programId);
+    } catch (err) {
+      console.warn('Failed to switch program:', err);
+    }
+  };
+
   const handleStartWorkout = () => {
-    startWorkout();
+    // A session restored after an app restart is resumed, not restarted
+    if (!isWorkoutActive) {
+      startWorkout(todaysTemplate);
+    }
+    onNavigate();
+  };
+
+  const handleJoinWorkout = () => {
+    joinWorkout();
     onNavigate();
   };
 
   return (
     <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
       <View style={styles.header}>
+        <View>
+          {authEnabled && user && (
+            <TouchableOpacity
+              activeOpacity={0.8}
+              onPress={isGuest ? onOpenAccount : () => signOut().catch(() => undefined)}
+            >
+              <Text style={styles.accountText}>
+                {isGuest ? 'Guest · Save account' : `${user.email ?? 'Signed in'} · Sign out`}
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            activeOpacity={0.8}
+            onPress={() => setWeightUnit(weightUnit === 'kg' ? 'lb' : 'kg')}
+          >
+            <Text style={styles.accountText}>
+              Units: {unitLabel(weightUnit)} · Switch to {unitLabel(weightUnit === 'kg' ? 'lb' : 'kg')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            activeOpacity={0.8}
+            onPress={() => setOneRepMaxFormula(oneRepMaxFormula === 'epley' ? 'brzycki' : 'epley')}
+          >
+            <Text style={styles.accountText}>
+              e1RM: {ONE_REP_MAX_FORMULA_LABELS[oneRepMaxFormula]} · Switch to{' '}
+              {ONE_REP_MAX_FORMULA_LABELS[oneRepMaxFormula === 'epley' ? 'brzycki' : 'epley']}
+            </Text>
+          </TouchableOpacity>
+          <View style={styles.historyLinks}>
+            <TouchableOpacity activeOpacity={0.8} onPress={onOpenImport}>
+              <Text style={styles.accountText}>Import history</Text>
+            </TouchableOpacity>
+            <Text style={styles.accountText}> · </Text>
+            <TouchableOpacity activeOpacity={0.8} onPress={onOpenExport}>
+              <Text style={styles.accountText}>Export</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
         <Image source={require('../../assets/images/kori-icon.png')} style={styles.logo} />
       </View>
 
@@ -90,14 +283,90 @@ export default function HomeScreen({ onNavigate }: HomeScreenProps) {
       >
         <Text style={styles.title}>Today&apos;s Workout</Text>
 
+        <View style={styles.planChips}>
+          {[null, ...programs].map((program) => {
+            const selected = (programDay?.program.id ?? null) === (program?.id ?? null);
+            return (
+              <TouchableOpacity
+                key={program?.id ?? 'templates'}
+                style={[styles.planChip, selected && styles.planChipSelected]}
+                activeOpacity={0.8}
+                onPress={() => !selected && handleSelectProgram(program?.id ?? null)}
+              >
+                <Text style={[styles.planChipText, selected && styles.planChipTextSelected]}>
+                  {program?.name ?? 'Templates'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {programDay ? (
+          <Text style={styles.programDayText}>
+            {programDay.template.name} · {formatProgramDay(programDay)}
+          </Text>
+        ) : (
+          templates.length > 1 && (
+            <View style={styles.planChips}>
+              {templates.map((template) => (
+                <TouchableOpacity
+                  key={template.id}
+                  style={[styles.planChip, template.id === selectedTemplate?.id && styles.planChipSelected]}
+                  activeOpacity={0.8}
+                  onPress={() => selectTemplate(template.id)}
+                >
+                  <Text
+                    style={[
+                      styles.planChipText,
+                      template.id === selectedTemplate?.id && styles.planChipTextSelected,
+                    ]}
+                  >
+                    {template.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )
+        )}
+
         <View style={styles.exerciseBox}>
-          {EXERCISES.map((exercise, index) => (
-            <Text key={index} style={styles.exerciseText}>
-              {exercise}
-            </Text>
-          ))}
+          {loadingTemplates || loadingProgram ? (
+            <Text style={styles.recommendationText}>Loading...</Text>
+          ) : !todaysTemplate ? (
+            <Text style={styles.recommendationText}>No workout templates. Create one to plan your day.</Text>
+          ) : (
+            todaysTemplate.exercises.map((exercise, index) => (
+              <View key={index}>
+                <Text style={styles.exerciseText}>{exercise.exerciseName}</Text>
+                <Text style={styles.strategyText}>
+                  {programDay?.week && programDay.program.mainLifts.includes(exercise.exerciseName)
+                    ? formatCycleSets(programDay.week)
+                    : describeTemplateExercise(exercise)}
+                </Text>
+              </View>
+            ))
+          )}
         </View>
 
+        {!programDay && (
+          <View style={styles.rationaleLinks}>
+            {selectedTemplate && (
+              <>
+                <TouchableOpacity activeOpacity={0.8} onPress={() => setEditingTemplate(selectedTemplate)}>
+                  <Text style={styles.rationaleLink}>Edit {selectedTemplate.name}</Text>
+                </TouchableOpacity>
+                <Text style={styles.rationaleText}> · </Text>
+              </>
+            )}
+            <TouchableOpacity
+              activeOpacity={0.8}
+              onPress={() => setEditingTemplate({ id: createTemplateId(), name: '', exercises: [] })}
+            >
+              <Text style={styles.rationaleLink}>New template</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         <Text style={styles.recommendationsTitle}>KORI Recommendations</Text>
 
         <View style={styles.recommendationsBox}>
@@ -110,10 +379,70 @@ export default function HomeScreen({ onNavigate }: HomeScreenProps) {
               No previous workout found. Complete your first session!
             </Text>
           ) : (
-            recommendations.map((rec, index) => (
-              <Text key={index} style={styles.recommendationText}>
-                {rec.exerciseName}: {rec.weight} lbs × {rec.reps} reps
-              </Text>
+            recommendations.map((rec) => (
+              <TouchableOpacity
+                key={rec.exerciseName}
+                activeOpacity={0.8}
+                onPress={() =>
+                  setExpandedExercise(expandedExercise === rec.exerciseName ? null : rec.exerciseName)
+                }
+              >
+                <Text style={styles.recommendationText}>
+                  {rec.exerciseName}: {formatSetSummary(rec, weightUnit)}
+                  {rec.reps !== null && ' reps'}
+                </Text>
+                {rec.plates && (
+                  <Text style={styles.strategyText}>{formatPlateBreakdown(rec.plates, weightUnit)}</Text>
+                )}
+                {rec.warmup.length > 0 && (
+                  <Text style={styles.strategyText}>
+                    Warm-up: {formatWarmupSets(rec.warmup, weightUnit)}
+                  </Text>
+                )}
+                <Text style={styles.strategyText}>
+                  Last done {describeDaysAgo(rec.daysAgo)} ·{' '}
+                  {rec.rationale.cycle?.week.name ?? PROGRESSION_STRATEGIES[rec.strategy].label}
+                </Text>
+                {expandedExercise === rec.exerciseName && (
+                  <View style={styles.rationaleBox}>
+                    <Text style={styles.rationaleText}>
+                      {formatRecommendationReason(rec, rec.rationale, weightUnit)}.
+                    </Text>
+                    <Text style={styles.rationaleText}>
+                      Last time:{' '}
+                      {rec.rationale.sourceSets
+                        .map((set) => `${formatSetSummary(set, weightUnit)}${formatSetMetadata(set)}`)
+                        .join(', ')}
+                    </Text>
+                    <Text style={styles.rationaleText}>
+                      Based on: {formatSetSummary(rec.rationale.basis, weightUnit)} · Change:{' '}
+                      {formatTargetChange(rec.rationale.change, weightUnit)}
+                    </Text>
+                    <View style={styles.rationaleLinks}>
+                      <TouchableOpacity
+                        activeOpacity={0.8}
+                        onPress={() => setProgressionExercise(rec.exerciseName)}
+                      >
+                        <Text style={styles.rationaleLink}>Progression settings</Text>
+                      </TouchableOpacity>
+                      <Text style={styles.rationaleLink}> · </Text>
+                      <TouchableOpacity
+                        activeOpacity={0.8}
+                        onPress={() => setEquipmentExercise(rec.exerciseName)}
+                      >
+                        <Text style={styles.rationaleLink}>Equipment</Text>
+                      </TouchableOpacity>
+                      <Text style={styles.rationaleLink}> · </Text>
+                      <TouchableOpacity
+                        activeOpacity={0.8}
+                        onPress={() => setWarmupExercise(rec.exerciseName)}
+                      >
+                        <Text style={styles.rationaleLink}>Warm-up</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+              </TouchableOpacity>
             ))
           )}
         </View>
@@ -130,18 +459,78 @@ export default function HomeScreen({ onNavigate }: HomeScreenProps) {
           </TouchableOpacity>
         )}
 
+        {!loading && recommendations && recommendations.length > 0 && (
+          <TouchableOpacity
+            activeOpacity={0.8}
+            onPress={() => setSpeakRecommendationReasons(!speakRecommendationReasons)}
+          >
+            <Text style={styles.reasonsToggleText}>
+              {speakRecommendationReasons
+                ? 'Reasons are spoken · Turn off'
+                : 'Reasons are not spoken · Turn on'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity 
           style={styles.startButton} 
           onPress={handleStartWorkout}
           activeOpacity={0.8}
         >
-          <Text style={styles.startButtonText}>Start Workout</Text>
+          <Text style={styles.startButtonText}>
+            {isWorkoutActive ? 'Resume Workout' : 'Start Workout'}
+          </Text>
         </TouchableOpacity>
 
+        {!isWorkoutActive && sessionElsewhere && (
+          <TouchableOpacity onPress={handleJoinWorkout} activeOpacity={0.8}>
+            <Text style={styles.joinText}>
+              Join the workout started on another device at{' '}
+              {new Date(sessionElsewhere.startedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         <Text style={styles.instructionText}>
           Tap Start, then speak your sets aloud.
         </Text>
       </ScrollView>
+
+      <ProgressionSettingsModal
+        exerciseName={progressionExercise}
+        config={progressionConfig}
+        saving={savingProgression}
+        onSave={handleSaveProgression}
+        onCancel={() => setProgressionExercise(null)}
+      />
+
+      <EquipmentModal
+        exerciseName={equipmentExercise}
+        profile={equipmentProfile}
+        saving={savingEquipment}
+        onSave={handleSaveEquipment}
+        onCancel={() => setEquipmentExercise(null)}
+      />
+
+      <WarmupSettingsModal
+        exerciseName={warmupExercise}
+        config={warmupConfig}
+        saving={savingWarmup}
+        onSave={handleSaveWarmup}
+        onCancel={() => setWarmupExercise(null)}
+      />
+
+      <TemplateEditorModal
+        template={editingTemplate}
+        saving={savingTemplate}
+        onSave={handleSaveTemplate}
+        onDelete={
+          editingTemplate && templates.some((template) => template.id === editingTemplate.id)
+            ? handleDeleteTemplate
+            : undefined
+        }
+        onCancel={() => setEditingTemplate(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -152,10 +541,19 @@ const styles = StyleSheet.create({
     backgroundColor: colors.background.primary,
   },
   header: {
-    alignItems: 'flex-end',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     paddingHorizontal: spacing.lg,
     paddingTop: spacing.sm,
   },
+  accountText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+  historyLinks: {
+    flexDirection: 'row',
+  },
   logo: {
     width: 50,
     height: 50,
@@ -182,7 +580,37 @@ const styles = StyleSheet.create({
     paddingHorizontal: spacing['3xl'],
     width: '100%',
     maxWidth: 460,
-    marginBottom: spacing['2xl'],
+    marginBottom: spacing.md,
+  },
+  programDayText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  planChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  planChip: {
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  planChipSelected: {
+    borderColor: colors.primary,
+  },
+  planChipText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+  },
+  planChipTextSelected: {
+    color: colors.primary,
   },
   exerciseText: {
     ...typography.bodyLarge,
@@ -214,6 +642,41 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginVertical: spacing.xs,
   },
+  strategyText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+    marginBottom: spacing.xs,
+  },
+  rationaleBox: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border.primary,
+    paddingTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  rationaleText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing.xs,
+  },
+  rationaleLinks: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  rationaleLink: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  reasonsToggleText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
   playButton: {
     backgroundColor: colors.transparent,
     borderWidth: 1,
@@ -244,6 +707,12 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     textAlign: 'center',
   },
+  joinText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
   instructionText: {
     ...typography.bodySmall,
     color: colors.text.tertiary,
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useWorkoutImport } from '../hooks';
+import { borderRadius, colors, spacing, typography } from '../theme';
+import { unitLabel } from '../utils/units';
+import { IMPORT_SOURCE_LABELS } from '../utils/workoutImport';
+
+interface ImportScreenProps {
+  onNavigate: () => void;
+}
+
+const MAX_SKIPPED_SHOWN = 5;
+
+export default function ImportScreen({ onNavigate }: ImportScreenProps) {
+  const {
+    preview,
+    loading,
+    importing,
+    error,
+    result,
+    strongUnit,
+    setStrongUnit,
+    chooseFile,
+    commit,
+  } = useWorkoutImport();
+  const [skipConflicts, setSkipConflicts] = useState(true);
+
+  const conflictingSets = preview && skipConflicts
+    ? preview.conflicts.reduce((total, conflict) => total + conflict.importedSets, 0)
+    : 0;
+  const setsToImport = preview ? preview.sets.length - conflictingSets : 0;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.title}>Import Workouts</Text>
+        <Text style={styles.subtitle}>
+          Bring in your history from a Strong or Hevy CSV export.
+        </Text>
+
+        <TouchableOpacity
+          style={styles.primaryButton}
+          activeOpacity={0.8}
+          onPress={chooseFile}
+          disabled={loading || importing}
+        >
+          <Text style={styles.primaryButtonText}>
+            {loading ? 'Reading...' : preview ? 'Choose Another File' : 'Choose CSV File'}
+          </Text>
+        </TouchableOpacity>
+
+        {preview && (
+          <View style={styles.previewBox}>
+            <Text style={styles.previewText}>
+              {IMPORT_SOURCE_LABELS[preview.source]} · {preview.sets.length} set(s) in{' '}
+              {preview.sessions.length} workout(s)
+              {preview.range && ` · ${preview.range.from} to ${preview.range.to}`}
+            </Text>
+
+            {preview.source === 'strong' && (
+              <TouchableOpacity
+                activeOpacity={0.8}
+                onPress={() => setStrongUnit(strongUnit === 'kg' ? 'lb' : 'kg')}
+              >
+                <Text style={styles.linkText}>
+                  Weights in this file are in {unitLabel(strongUnit)} · Switch to{' '}
+                  {unitLabel(strongUnit === 'kg' ? 'lb' : 'kg')}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            <Text style={styles.sectionTitle}>Exercises</Text>
+            {preview.mappings.map((mapping) => (
+              <Text key={mapping.sourceName} style={styles.previewText}>
+                {mapping.isNew
+                  ? `${mapping.sourceName} (new)`
+                  : mapping.sourceName === mapping.exerciseName
+                    ? mapping.exerciseName
+                    : `${mapping.sourceName} → ${mapping.exerciseName}`}{' '}
+                · {mapping.setCount}
+              </Text>
+            ))}
+
+            {preview.alreadyImported > 0 && (
+              <Text style={styles.noteText}>
+                {preview.alreadyImported} set(s) were imported before and will be skipped.
+              </Text>
+            )}
+
+            {preview.skipped.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>
+                  {preview.skipped.length} row(s) can&apos;t be imported
+                </Text>
+                {preview.skipped.slice(0, MAX_SKIPPED_SHOWN).map((skipped) => (
+                  <Text key={skipped.row} style={styles.noteText}>
+                    Row {skipped.row}: {skipped.reason}
+                  </Text>
+                ))}
+              </>
+            )}
+
+            {preview.conflicts.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Dates that already have sets</Text>
+                {preview.conflicts.map((conflict) => (
+                  <Text key={conflict.date} style={styles.noteText}>
+                    {conflict.date}: {conflict.existingSets} logged, {conflict.importedSets} in file
+                  </Text>
+                ))}
+                <TouchableOpacity activeOpacity={0.8} onPress={() => setSkipConflicts(!skipConflicts)}>
+                  <Text style={styles.linkText}>
+                    {skipConflicts ? 'Skipping these dates · Import anyway' : 'Importing these dates · Skip them'}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+
+        {preview && setsToImport > 0 && (
+          <TouchableOpacity
+            style={styles.primaryButton}
+            activeOpacity={0.8}
+            onPress={() => commit(skipConflicts)}
+            disabled={importing || loading}
+          >
+            <Text style={styles.primaryButtonText}>
+              {importing ? 'Importing...' : `Import ${setsToImport} Set(s)`}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {result && (
+          <Text style={styles.statusText}>
+            Imported {result.sets} set(s) from {result.sessions} workout(s).
+            {result.skippedForConflicts > 0 &&
+              ` Skipped ${result.skippedForConflicts} on dates that already had sets.`}
+          </Text>
+        )}
+
+        {error && <Text style={styles.statusText}>{error}</Text>}
+
+        <TouchableOpacity style={styles.secondaryActions} activeOpacity={0.8} onPress={onNavigate}>
+          <Text style={styles.secondaryText}>Back</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  scrollContent: {
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing['3xl'],
+    paddingBottom: spacing['4xl'],
+  },
+  title: {
+    ...typography.h3,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  subtitle: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing['2xl'],
+  },
+  previewBox: {
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    padding: spacing.lg,
+    width: '100%',
+    maxWidth: 460,
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  previewText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+  noteText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  linkText: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    textDecorationLine: 'underline',
+    marginTop: spacing.sm,
+  },
+  primaryButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    width: '100%',
+    maxWidth: 460,
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  primaryButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
+  statusText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  secondaryActions: {
+    marginTop: spacing.lg,
+  },
+  secondaryText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textDecorationLine: 'underline',
+  },
+});
@@ -1,16 +1,35 @@
-import React from 'react';
-import { Animated, Image, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import React, { useMemo } from 'react';
+import { Alert, Animated, Image, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useWorkoutContext } from '../contexts';
-import { useKoriAnimation, useWorkoutSession } from '../hooks';
+import { FailedSetList, LoggedSetList } from '../components';
+import { usePreferencesContext, useWorkoutContext } from '../contexts';
+import { useKoriAnimation, useProgramSchedule, useRecommendations, useWorkoutSession } from '../hooks';
 import { borderRadius, colors, spacing, typography } from '../theme';
+import { formatRestTime } from '../utils/rest';
+import { formatSetMetadata } from '../utils/setMetadata';
+import { formatSetSummary } from '../utils/setFormatting';
+import { formatWarmupSets } from '../utils/warmup';
+
+const REST_STEP_SECONDS = 15;
 
 interface SessionScreenProps {
   onNavigate: () => void;
+  onLeave: () => void;
 }
 
-export default function SessionScreen({ onNavigate }: SessionScreenProps) {
-  const { finishWorkout } = useWorkoutContext();
+export default function SessionScreen({ onNavigate, onLeave }: SessionScreenProps) {
+  const { finishWorkout, resetWorkout, workoutData } = useWorkoutContext();
+  const { weightUnit } = usePreferencesContext();
+  const plannedExercises = useMemo(
+    () => workoutData.plan?.exercises.map((exercise) => exercise.exerciseName) ?? [],
+    [workoutData.plan]
+  );
+  const { today: programDay } = useProgramSchedule();
+  // Program percentages only apply when this workout is the program's day
+  const { data: recommendations } = useRecommendations(
+    plannedExercises,
+    programDay && programDay.template.id === workoutData.plan?.id ? programDay : null
+  );
   
   const {
     phase,
@@ -19,24 +38,69 @@ export default function SessionScreen({ onNavigate }: SessionScreenProps) {
     error,
     transcript,
     todaySets,
+    pendingSets,
+    failedSets,
     isKoriSpeaking,
     isListeningForSet,
     isListeningForYesNo,
     isActive,
+    isSavingSet,
     handleTapToSpeak,
     handleYes,
     handleNo,
+    editSet,
+    deleteSet,
+    retryFailedSet,
+    discardFailedSet,
+    announceWarmup,
+    announceNextUp,
+    planProgress,
+    restTimer,
+    defaultRestSeconds,
+    adjustRest,
+    skipRest,
+    rememberRest,
     cleanup,
-  } = useWorkoutSession();
+  } = useWorkoutSession({ recommendations });
+
+  // Warm-ups are offered until the exercise has its first set
+  const warmups = useMemo(() => {
+    const started = new Set([...(todaySets ?? []), ...pendingSets].map((set) => set.exerciseName));
+    return (recommendations ?? []).filter((rec) => rec.warmup.length > 0 && !started.has(rec.exerciseName));
+  }, [recommendations, todaySets, pendingSets]);
 
   const koriPulseAnim = useKoriAnimation({ isActive });
 
-  const handleFinishWorkout = async () => {
+  const completeWorkout = async () => {
     await cleanup();
     finishWorkout();
     onNavigate();
   };
 
+  // Stops following a joined workout without ending it on the device that started it
+  const leaveWorkout = async () => {
+    await cleanup();
+    resetWorkout();
+    onLeave();
+  };
+
+  const handleFinishWorkout = async () => {
+    if (!workoutData.joined) {
+      await completeWorkout();
+      return;
+    }
+
+    Alert.alert(
+      'Finish for everyone?',
+      'This workout was started on another device. Finishing it here ends it there too.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Leave', onPress: () => void leaveWorkout() },
+        { text: 'Finish', style: 'destructive', onPress: () => void completeWorkout() },
+      ]
+    );
+  };
+
   return (
     <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
       <ScrollView 
@@ -81,7 +145,8 @@ export default function SessionScreen({ onNavigate }: SessionScreenProps) {
             </TouchableOpacity>
 
             <Text style={styles.instructionText}>
-              Say your set like: &quot;Leg Press 160 for 10 reps&quot;
+              Say your set like: &quot;Leg Press 160 for 10 reps&quot;{'\n'}
+              or &quot;what&apos;s next?&quot; or &quot;undo last set&quot;. Tap a set to edit, swipe to delete.
             </Text>
           </>
         ) : phase === 'transcribing' ? (
@@ -102,7 +167,7 @@ export default function SessionScreen({ onNavigate }: SessionScreenProps) {
         ) : phase === 'awaiting_yesno' && pendingSet ? (
           <>
             <Text style={styles.confirmationText}>
-              I heard: {pendingSet.exerciseName}, {pendingSet.weight} lbs for {pendingSet.reps} reps.
+              I heard: {pendingSet.exerciseName}, {formatSetSummary(pendingSet, pendingSet.weightUnit)}{formatSetMetadata(pendingSet)}.
             </Text>
 
             {isListeningForYesNo ? (
@@ -150,18 +215,108 @@ export default function SessionScreen({ onNavigate }: SessionScreenProps) {
 
         {error && <Text style={styles.errorText}>{error}</Text>}
 
+        {restTimer && (
+          <View style={styles.restContainer}>
+            <Text style={styles.restLabel}>Rest · {restTimer.exerciseName}</Text>
+            {restTimer.isOver ? (
+              <>
+                <Text style={styles.restTitle}>Time for your next set</Text>
+                <Text style={styles.restLabel}>Rested {formatRestTime(restTimer.elapsedSeconds)}</Text>
+              </>
+            ) : (
+              <>
+                <Text style={styles.restTime}>{formatRestTime(restTimer.remainingSeconds)}</Text>
+                <View style={styles.restControls}>
+                  <TouchableOpacity activeOpacity={0.8} onPress={() => adjustRest(-REST_STEP_SECONDS)}>
+                    <Text style={styles.restControlText}>−{REST_STEP_SECONDS} s</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity activeOpacity={0.8} onPress={() => adjustRest(REST_STEP_SECONDS)}>
+                    <Text style={styles.restControlText}>+{REST_STEP_SECONDS} s</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity activeOpacity={0.8} onPress={skipRest}>
+                    <Text style={styles.restControlText}>Skip</Text>
+                  </TouchableOpacity>
+                </View>
+                {restTimer.durationSeconds !== defaultRestSeconds && (
+                  <TouchableOpacity activeOpacity={0.8} onPress={rememberRest}>
+                    <Text style={styles.restLink}>
+                      Rest {formatRestTime(restTimer.durationSeconds)} after {restTimer.exerciseName} from now on
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+          </View>
+        )}
+
+        {phase === 'idle' && warmups.length > 0 && (
+          <View style={styles.warmupContainer}>
+            {warmups.map((rec) => (
+              <TouchableOpacity
+                key={rec.exerciseName}
+                style={styles.warmupItem}
+                activeOpacity={0.8}
+                onPress={() => announceWarmup(rec.exerciseName, rec.warmup)}
+                disabled={loading || isKoriSpeaking}
+              >
+                <Text style={styles.warmupTitle}>Start {rec.exerciseName}</Text>
+                <Text style={styles.warmupText}>Warm-up: {formatWarmupSets(rec.warmup, weightUnit)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {planProgress && (
+          <View style={styles.planContainer}>
+            <Text style={styles.loggedSetsTitle}>{workoutData.plan?.name ?? 'Plan'}</Text>
+            {planProgress.exercises.map((exercise, index) => (
+              <View
+                key={index}
+                style={[
+                  styles.planItem,
+                  index === planProgress.currentIndex && styles.planItemCurrent,
+                  exercise.isComplete && styles.planItemComplete,
+                ]}
+              >
+                <Text style={styles.planItemText}>{exercise.exerciseName}</Text>
+                <Text style={styles.planItemText}>
+                  {exercise.doneSets}/{exercise.targetSets}
+                </Text>
+              </View>
+            ))}
+            <TouchableOpacity
+              activeOpacity={0.8}
+              onPress={announceNextUp}
+              disabled={phase !== 'idle' || loading || isKoriSpeaking}
+            >
+              <Text style={styles.restLink}>
+                {planProgress.currentIndex === null ? 'Plan complete' : "What's next?"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <FailedSetList
+          sets={failedSets}
+          disabled={isSavingSet}
+          formatSet={(set) => `${set.exerciseName} - ${formatSetSummary(set, weightUnit)} (${set.date})`}
+          onRetry={retryFailedSet}
+          onDiscard={discardFailedSet}
+        />
+
         <View style={styles.loggedSetsContainer}>
           <Text style={styles.loggedSetsTitle}>Logged Sets</Text>
           
-          {!todaySets || todaySets.length === 0 ? (
-            <Text style={styles.noSetsText}>No sets yet</Text>
-          ) : (
-            todaySets.map((set) => (
-              <Text key={set.id} style={styles.setItem}>
-                {set.exerciseName} - Set {set.setNumber}: {set.weight} lbs × {set.reps}
-              </Text>
-            ))
-          )}
+          <LoggedSetList
+            sets={todaySets}
+            pendingSets={pendingSets}
+            emptyText="No sets yet"
+            saving={isSavingSet}
+            itemStyle={styles.setItem}
+            formatSet={(set) => `${set.exerciseName} - Set ${set.setNumber}: ${formatSetSummary(set, weightUnit)}${formatSetMetadata(set)}`}
+            onEdit={editSet}
+            onDelete={deleteSet}
+          />
         </View>
       </ScrollView>
 
@@ -235,6 +390,93 @@ const styles = StyleSheet.create({
     paddingHorizontal: spacing.lg,
     lineHeight: 20,
   },
+  restContainer: {
+    width: '100%',
+    maxWidth: 460,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.xl,
+  },
+  restLabel: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  restTitle: {
+    ...typography.bodyLarge,
+    color: colors.text.primary,
+    marginVertical: spacing.xs,
+  },
+  restTime: {
+    ...typography.h3,
+    color: colors.text.primary,
+    marginVertical: spacing.xs,
+  },
+  restControls: {
+    flexDirection: 'row',
+    gap: spacing.xl,
+  },
+  restControlText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+  },
+  restLink: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    textDecorationLine: 'underline',
+    marginTop: spacing.sm,
+  },
+  warmupContainer: {
+    width: '100%',
+    maxWidth: 460,
+    marginBottom: spacing.xl,
+  },
+  warmupItem: {
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  warmupTitle: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
+  warmupText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+  },
+  planContainer: {
+    width: '100%',
+    maxWidth: 460,
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  planItem: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  planItemCurrent: {
+    borderColor: colors.primary,
+  },
+  planItemComplete: {
+    opacity: 0.5,
+  },
+  planItemText: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+  },
   loggedSetsContainer: {
     width: '100%',
     alignItems: 'center',
@@ -245,10 +487,6 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     marginBottom: spacing.md,
   },
-  noSetsText: {
-    ...typography.bodySmall,
-    color: colors.text.tertiary,
-  },
   setItem: {
     ...typography.bodySmall,
     color: colors.text.primary,
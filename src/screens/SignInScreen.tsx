@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Image, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthContext } from '../contexts';
+import { borderRadius, colors, spacing, typography } from '../theme';
+
+interface SignInScreenProps {
+  // Set when a guest opens this screen to save their account
+  onNavigate?: () => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default function SignInScreen({ onNavigate }: SignInScreenProps) {
+  const { isGuest, error, sendMagicLink, continueAsGuest, saveGuestAccount } = useAuthContext();
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const isUpgrade = isGuest;
+
+  const handleSubmit = async () => {
+    const trimmed = email.trim();
+    if (!EMAIL_PATTERN.test(trimmed)) {
+      setValidationError('Enter a valid email address');
+      return;
+    }
+
+    setValidationError(null);
+    setSubmitting(true);
+    try {
+      if (isUpgrade) {
+        await saveGuestAccount(trimmed);
+      } else {
+        await sendMagicLink(trimmed);
+      }
+      setSentTo(trimmed);
+    } catch {
+      // Error is surfaced through the auth context
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleGuest = async () => {
+    setSubmitting(true);
+    try {
+      await continueAsGuest();
+    } catch {
+      // Error is surfaced through the auth context
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <Image source={require('../../assets/images/kori-icon.png')} style={styles.logo} />
+
+        <Text style={styles.title}>{isUpgrade ? 'Save Your Account' : 'Welcome to KORI'}</Text>
+        <Text style={styles.subtitle}>
+          {isUpgrade
+            ? 'Add your email to keep your workouts on any device.'
+            : 'Sign in with a magic link sent to your email.'}
+        </Text>
+
+        {sentTo ? (
+          <Text style={styles.sentText}>
+            Check {sentTo} and open the link on this device to continue.
+          </Text>
+        ) : (
+          <>
+            <TextInput
+              style={styles.input}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="you@example.com"
+              placeholderTextColor={colors.text.tertiary}
+              autoCapitalize="none"
+              autoComplete="email"
+              keyboardType="email-address"
+            />
+
+            <TouchableOpacity
+              style={styles.primaryButton}
+              activeOpacity={0.8}
+              onPress={handleSubmit}
+              disabled={submitting}
+            >
+              <Text style={styles.primaryButtonText}>
+                {submitting ? 'Sending...' : isUpgrade ? 'Save Account' : 'Send Magic Link'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {(validationError || error) && (
+          <Text style={styles.errorText}>{validationError || error}</Text>
+        )}
+
+        <View style={styles.secondaryActions}>
+          {isUpgrade ? (
+            <TouchableOpacity activeOpacity={0.8} onPress={onNavigate}>
+              <Text style={styles.secondaryText}>Back</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity activeOpacity={0.8} onPress={handleGuest} disabled={submitting}>
+              <Text style={styles.secondaryText}>Continue as guest</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  scrollContent: {
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing['5xl'],
+    paddingBottom: spacing['4xl'],
+  },
+  logo: {
+    width: 80,
+    height: 80,
+    marginBottom: spacing['2xl'],
+  },
+  title: {
+    ...typography.h3,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  subtitle: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing['2xl'],
+  },
+  input: {
+    ...typography.body,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+    width: '100%',
+    maxWidth: 460,
+    marginBottom: spacing.lg,
+  },
+  primaryButton: {
+    backgroundColor: colors.transparent,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.md,
+    width: '100%',
+    maxWidth: 460,
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  primaryButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
+  sentText: {
+    ...typography.body,
+    color: colors.text.primary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  secondaryActions: {
+    marginTop: spacing.lg,
+  },
+  secondaryText: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    textDecorationLine: 'underline',
+  },
+});
@@ -1,18 +1,37 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Animated, Easing, Image, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useWorkoutContext } from '../contexts';
-import { useTodaysWorkoutSets } from '../hooks';
+import { FailedSetList, LoggedSetList } from '../components';
+import { usePreferencesContext, useWorkoutContext } from '../contexts';
+import {
+  useSessionRecords, useSessionWorkoutSets, useWorkoutSetEditor, useWorkoutSetQueue
+} from '../hooks';
+import { getSetRecordKey } from '../services/personalRecordService';
 import { speak, stop } from '../services/tts';
 import { borderRadius, colors, spacing, typography } from '../theme';
+import { formatPersonalRecords } from '../utils/personalRecords';
+import { formatSetRest } from '../utils/rest';
+import { formatSetMetadata } from '../utils/setMetadata';
+import { formatSetSummary } from '../utils/setFormatting';
 
 interface SummaryScreenProps {
   onNavigate: () => void;
 }
 
 export default function SummaryScreen({ onNavigate }: SummaryScreenProps) {
-  const { resetWorkout } = useWorkoutContext();
-  const { data: todaySets, loading, error } = useTodaysWorkoutSets();
+  const { workoutData, resetWorkout, formatDuration } = useWorkoutContext();
+  const { weightUnit } = usePreferencesContext();
+  const { data: sessionSets, loading, error, refetch } = useSessionWorkoutSets(workoutData.sessionId);
+  const setEditor = useWorkoutSetEditor({ onChanged: refetch });
+  const { pendingSets: queuedSets, failedSets, retryFailed, discardFailed } = useWorkoutSetQueue({
+    onSynced: refetch,
+  });
+  const pendingSets = useMemo(
+    () => queuedSets.filter((set) => set.sessionId === workoutData.sessionId),
+    [queuedSets, workoutData.sessionId]
+  );
+  const { data: records } = useSessionRecords(sessionSets, pendingSets, workoutData.sessionId);
+  const recordCount = Object.keys(records ?? {}).length;
   const [isKoriSpeaking, setIsKoriSpeaking] = useState(false);
   const koriPulseAnim = useRef(new Animated.Value(1)).current;
 
@@ -39,27 +58,33 @@ export default function SummaryScreen({ onNavigate }: SummaryScreenProps) {
     }
   }, [isKoriSpeaking, koriPulseAnim]);
 
+  // Said once per visit; edits and live updates refetch the sets but shouldn't repeat it
+  const hasSpokenRef = useRef(false);
+
   useEffect(() => {
+    if (loading || !sessionSets || hasSpokenRef.current) return;
+    hasSpokenRef.current = true;
+
     const speakWelcome = async () => {
-      if (!loading && todaySets) {
-        await new Promise(r => setTimeout(r, 500));
-        setIsKoriSpeaking(true);
-        try {
-          await speak("Your workout is saved. I'll have recommendations for tomorrow.");
-        } catch (err) {
-          console.warn('TTS summary error:', err);
-        } finally {
-          setIsKoriSpeaking(false);
-        }
+      await new Promise(r => setTimeout(r, 500));
+      setIsKoriSpeaking(true);
+      try {
+        await speak("Your workout is saved. I'll have recommendations for tomorrow.");
+      } catch (err) {
+        console.warn('TTS summary error:', err);
+      } finally {
+        setIsKoriSpeaking(false);
       }
     };
 
     speakWelcome();
+  }, [loading, sessionSets]);
 
+  useEffect(() => {
     return () => {
       stop();
     };
-  }, [loading, todaySets]);
+  }, []);
 
   const handleContinue = () => {
     stop();
@@ -109,20 +134,37 @@ export default function SummaryScreen({ onNavigate }: SummaryScreenProps) {
               recommendations ready for tomorrow.
             </Text>
 
-            <Text style={styles.summaryTitle}>Today&apos;s Summary</Text>
+            <Text style={styles.summaryTitle}>Session Summary</Text>
+            <Text style={styles.durationText}>Duration {formatDuration(workoutData.duration)}</Text>
+            {recordCount > 0 && (
+              <Text style={styles.recordsText}>
+                {recordCount === 1 ? '1 set' : `${recordCount} sets`} set a new personal record
+              </Text>
+            )}
 
             <View style={styles.summaryBox}>
-              {!todaySets || todaySets.length === 0 ? (
-                <Text style={styles.exerciseItem}>No sets logged today</Text>
-              ) : (
-                todaySets.map((set) => (
-                  <Text key={set.id} style={styles.exerciseItem}>
-                    • {set.exerciseName} — Set {set.setNumber}: {set.weight} lbs × {set.reps}
-                  </Text>
-                ))
-              )}
+              <LoggedSetList
+                sets={sessionSets}
+                pendingSets={pendingSets}
+                emptyText="No sets logged this session"
+                saving={setEditor.saving}
+                itemStyle={styles.exerciseItem}
+                formatSet={(set) => `• ${set.exerciseName} — Set ${set.setNumber}: ${formatSetSummary(set, weightUnit)}${formatSetMetadata(set)}${formatSetRest(set)}${formatPersonalRecords(records?.[getSetRecordKey(set)] ?? [])}`}
+                isHighlighted={(set) => !!records?.[getSetRecordKey(set)]}
+                onEdit={setEditor.editSet}
+                onDelete={setEditor.deleteSet}
+              />
             </View>
 
+            {setEditor.error && <Text style={styles.editErrorText}>{setEditor.error}</Text>}
+
+            <FailedSetList
+              sets={failedSets}
+              formatSet={(set) => `${set.exerciseName} — ${formatSetSummary(set, weightUnit)} (${set.date})`}
+              onRetry={retryFailed}
+              onDiscard={discardFailed}
+            />
+
             <Text style={styles.disclaimerText}>
               *KORI adapts your next session based on today&apos;s performance.
             </Text>
@@ -226,6 +268,17 @@ const styles = StyleSheet.create({
   summaryTitle: {
     ...typography.h5,
     color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  durationText: {
+    ...typography.caption,
+    color: colors.text.tertiary,
+    marginBottom: spacing.lg,
+  },
+  recordsText: {
+    ...typography.bodySmall,
+    color: colors.primary,
+    marginTop: -spacing.sm,
     marginBottom: spacing.lg,
   },
   summaryBox: {
@@ -244,6 +297,12 @@ const styles = StyleSheet.create({
     marginVertical: spacing.sm,
     textAlign: 'center',
   },
+  editErrorText: {
+    ...typography.bodySmall,
+    color: colors.text.tertiary,
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
   disclaimerText: {
     ...typography.caption,
     color: colors.text.tertiary,
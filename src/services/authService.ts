@@ -0,0 +1,101 @@
+import type { Session } from '@supabase/supabase-js';
+import * as Linking from 'expo-linking';
+import { getStorageBackend } from './repositories';
+import { getSupabase } from './supabase';
+
+let currentSession: Session | null = null;
+
+// Accounts only exist with the Supabase backend; demo mode is a single local user
+export function isAuthEnabled(): boolean {
+  return getStorageBackend() === 'supabase';
+}
+
+export function getCurrentUserId(): string | null {
+  return currentSession?.user.id ?? null;
+}
+
+// Reads the persisted session and keeps the cached one in sync with Supabase auth
+export async function initAuth(onChange: (session: Session | null) => void): Promise<() => void> {
+  const supabase = getSupabase();
+
+  const { data, error } = await supabase.auth.getSession();
+  if (error) {
+    console.warn('Failed to restore auth session:', error.message);
+  }
+  currentSession = data.session;
+  onChange(currentSession);
+
+  const { data: listener } = supabase.auth.onAuthStateChange((event, session) => {
+    console.log('🔑 Auth state:', event);
+    currentSession = session;
+    onChange(session);
+  });
+
+  return () => listener.subscription.unsubscribe();
+}
+
+export async function signInWithMagicLink(email: string): Promise<void> {
+  const { error } = await getSupabase().auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: Linking.createURL('auth-callback') },
+  });
+
+  if (error) {
+    throw new Error(`Failed to send magic link: ${error.message}`);
+  }
+}
+
+export async function signInAsGuest(): Promise<void> {
+  const { error } = await getSupabase().auth.signInAnonymously();
+
+  if (error) {
+    throw new Error(`Failed to continue as guest: ${error.message}`);
+  }
+}
+
+// Keeps the anonymous user's id (and so their sets) and attaches an email to it
+export async function upgradeGuestAccount(email: string): Promise<void> {
+  const { error } = await getSupabase().auth.updateUser(
+    { email },
+    { emailRedirectTo: Linking.createURL('auth-callback') }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save account: ${error.message}`);
+  }
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await getSupabase().auth.signOut();
+
+  if (error) {
+    throw new Error(`Failed to sign out: ${error.message}`);
+  }
+}
+
+// Completes sign-in from a magic link opened in the app
+export async function handleAuthRedirect(url: string): Promise<boolean> {
+  const fragment = url.includes('#') ? url.split('#')[1] : '';
+  const params = new URLSearchParams(fragment);
+
+  const errorDescription = params.get('error_description');
+  if (errorDescription) {
+    throw new Error(`Sign-in link failed: ${errorDescription}`);
+  }
+
+  const accessToken = params.get('access_token');
+  const refreshToken = params.get('refresh_token');
+  if (!accessToken || !refreshToken) {
+    return false;
+  }
+
+  const { error } = await getSupabase().auth.setSession({
+    access_token: accessToken,
+    refresh_token: refreshToken,
+  });
+
+  if (error) {
+    throw new Error(`Failed to complete sign-in: ${error.message}`);
+  }
+  return true;
+}
@@ -0,0 +1,96 @@
+import {
+  DEFAULT_GYM_EQUIPMENT,
+  type EquipmentProfile,
+  type EquipmentSettings,
+  type GymEquipment,
+} from '../types/equipment';
+import type { Equipment } from '../types/exercise';
+import { getUserItem, setUserItem } from './userStorage';
+
+const EQUIPMENT_SETTINGS_KEY = 'kori.equipmentSettings';
+
+const DEFAULT_EQUIPMENT_SETTINGS: EquipmentSettings = { gym: DEFAULT_GYM_EQUIPMENT, exercises: {} };
+
+// Kept on the device; missing fields fall back to the defaults
+export async function getEquipmentSettings(): Promise<EquipmentSettings> {
+  const raw = await getUserItem(EQUIPMENT_SETTINGS_KEY);
+  if (!raw) return DEFAULT_EQUIPMENT_SETTINGS;
+
+  try {
+    const saved = JSON.parse(raw) as Partial<EquipmentSettings>;
+    return {
+      gym: { ...DEFAULT_GYM_EQUIPMENT, ...saved.gym },
+      exercises: saved.exercises ?? {},
+    };
+  } catch (err) {
+    console.warn('Corrupt equipment settings, resetting:', err);
+    return DEFAULT_EQUIPMENT_SETTINGS;
+  }
+}
+
+// The exercise's own profile, or the gym's equipment for its catalog type
+export function getExerciseEquipment(
+  settings: EquipmentSettings,
+  exerciseName: string,
+  equipment: Equipment | null
+): EquipmentProfile {
+  const saved = settings.exercises[exerciseName];
+  if (saved) return saved;
+
+  const { gym } = settings;
+  const base = { baseWeightLb: gym.barWeightLb, platesLb: gym.platesLb, stepLb: gym.stackStepLb };
+  switch (equipment) {
+    case 'barbell':
+      return { ...base, method: 'plates' };
+    case 'machine':
+    case 'cable':
+      return { ...base, method: 'stack' };
+    case 'dumbbell':
+      return { ...base, method: 'dumbbells', stepLb: gym.dumbbellStepLb };
+    default:
+      return { ...base, method: 'none' };
+  }
+}
+
+async function saveEquipmentSettings(settings: EquipmentSettings): Promise<EquipmentSettings> {
+  await setUserItem(EQUIPMENT_SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+}
+
+export async function saveExerciseEquipment(
+  exerciseName: string,
+  profile: EquipmentProfile
+): Promise<EquipmentSettings> {
+  const current = await getEquipmentSettings();
+  return saveEquipmentSettings({
+    ...current,
+    exercises: { ...current.exercises, [exerciseName]: profile },
+  });
+}
+
+// Updates the gym from one exercise's profile. The exercise keeps its own copy
+// only if the gym default would load it differently (e.g. a plate-loaded machine).
+export async function saveGymEquipment(
+  exerciseName: string,
+  equipment: Equipment | null,
+  profile: EquipmentProfile
+): Promise<EquipmentSettings> {
+  const current = await getEquipmentSettings();
+  const gym: GymEquipment = { ...current.gym };
+  if (profile.method === 'plates') {
+    gym.barWeightLb = profile.baseWeightLb;
+    gym.platesLb = profile.platesLb;
+  } else if (profile.method === 'stack') {
+    gym.stackStepLb = profile.stepLb;
+  } else if (profile.method === 'dumbbells') {
+    gym.dumbbellStepLb = profile.stepLb;
+  }
+
+  const exercises = { ...current.exercises };
+  delete exercises[exerciseName];
+  const fromGym = getExerciseEquipment({ gym, exercises }, exerciseName, equipment);
+  if (fromGym.method !== profile.method) {
+    exercises[exerciseName] = profile;
+  }
+  return saveEquipmentSettings({ gym, exercises });
+}
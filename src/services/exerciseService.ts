@@ -0,0 +1,49 @@
+import * as Crypto from 'expo-crypto';
+import { DEFAULT_EXERCISES } from '../data/defaultExercises';
+import type { Exercise } from '../types/exercise';
+import { resolveExercise, type ExerciseMatch } from '../utils/exerciseMatching';
+import { getCurrentUserId } from './authService';
+import { getWorkoutRepository } from './repositories';
+
+// Each account has its own exercises, so the cache is dropped when the account changes
+let catalogCache: { userId: string | null; exercises: Exercise[] } | null = null;
+
+// Falls back to the built-in catalog when offline so voice logging keeps working.
+// The fallback isn't cached, so the user's own exercises load once back online.
+export async function getExerciseCatalog(forceRefresh = false): Promise<Exercise[]> {
+  const userId = getCurrentUserId();
+  if (catalogCache?.userId !== userId) {
+    catalogCache = null;
+  }
+  if (catalogCache && !forceRefresh) {
+    return catalogCache.exercises;
+  }
+
+  try {
+    catalogCache = { userId, exercises: await getWorkoutRepository().getExercises() };
+  } catch (err) {
+    console.warn('Failed to load exercise catalog, using built-in list:', err);
+    return catalogCache?.exercises ?? DEFAULT_EXERCISES;
+  }
+  return catalogCache.exercises;
+}
+
+export async function resolveExerciseName(name: string): Promise<ExerciseMatch> {
+  return resolveExercise(name, await getExerciseCatalog());
+}
+
+export async function createExercise(name: string): Promise<Exercise> {
+  const exercise = await getWorkoutRepository().saveExercise({
+    id: Crypto.randomUUID(),
+    name,
+    aliases: [],
+    equipment: null,
+    muscleGroups: [],
+    userId: getCurrentUserId(),
+  });
+
+  if (catalogCache?.userId === exercise.userId) {
+    catalogCache = { ...catalogCache, exercises: [...catalogCache.exercises, exercise] };
+  }
+  return exercise;
+}
@@ -0,0 +1,165 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import type { WorkoutSet } from '../types/workout';
+import { toCsv } from '../utils/csv';
+import { fromPounds, type WeightUnit } from '../utils/units';
+import { getWorkoutSetsInRange } from './workoutService';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMAT_VERSION = 2;
+
+const EXPORT_PAGE_SIZE = 500;
+
+const CSV_HEADER = [
+  'date',
+  'logged_at',
+  'session_id',
+  'exercise',
+  'set_number',
+  'set_type',
+  'load_type',
+  'weight',
+  'unit',
+  'reps',
+  'duration_seconds',
+  'rpe',
+  'rir',
+  'rest_seconds',
+];
+
+// Weights are exported in the unit each set was logged in, not the stored pounds
+export interface ExportedWorkoutSet {
+  date: string;
+  loggedAt: string;
+  sessionId: string | null;
+  exerciseName: string;
+  exerciseId: string | null;
+  setNumber: number;
+  setType: WorkoutSet['setType'];
+  loadType: WorkoutSet['loadType'];
+  weight: number;
+  unit: WeightUnit;
+  reps: number | null;
+  durationSeconds: number | null;
+  rpe: number | null;
+  rir: number | null;
+  restSeconds: number | null; // rest taken before the set
+}
+
+export interface WorkoutExport {
+  format: 'kori-workouts';
+  version: typeof EXPORT_FORMAT_VERSION;
+  exportedAt: string;
+  range: { from: string; to: string };
+  sets: ExportedWorkoutSet[];
+}
+
+export interface ExportResult {
+  uri: string;
+  setCount: number;
+  shared: boolean;
+}
+
+// Dates are inclusive YYYY-MM-DD
+export async function getAllWorkoutSetsInRange(from: string, to: string): Promise<WorkoutSet[]> {
+  const sets: WorkoutSet[] = [];
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const page = await getWorkoutSetsInRange(from, to, { limit: EXPORT_PAGE_SIZE, offset });
+    sets.push(...page.items);
+    offset = page.nextOffset;
+  }
+
+  return sets;
+}
+
+function toExportedSet(set: WorkoutSet): ExportedWorkoutSet {
+  return {
+    date: set.date,
+    loggedAt: set.loggedAt,
+    sessionId: set.sessionId,
+    exerciseName: set.exerciseName,
+    exerciseId: set.exerciseId,
+    setNumber: set.setNumber,
+    setType: set.setType,
+    loadType: set.loadType,
+    weight: fromPounds(set.weight, set.weightUnit),
+    unit: set.weightUnit,
+    reps: set.reps,
+    durationSeconds: set.durationSeconds,
+    rpe: set.rpe,
+    rir: set.rir,
+    restSeconds: set.restSeconds,
+  };
+}
+
+export function buildWorkoutCsv(sets: WorkoutSet[]): string {
+  return toCsv(
+    CSV_HEADER,
+    sets.map(toExportedSet).map((set) => [
+      set.date,
+      set.loggedAt,
+      set.sessionId,
+      set.exerciseName,
+      set.setNumber,
+      set.setType,
+      set.loadType,
+      set.weight,
+      set.unit,
+      set.reps,
+      set.durationSeconds,
+      set.rpe,
+      set.rir,
+      set.restSeconds,
+    ])
+  );
+}
+
+export function buildWorkoutJson(sets: WorkoutSet[], from: string, to: string): string {
+  const payload: WorkoutExport = {
+    format: 'kori-workouts',
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    range: { from, to },
+    sets: sets.map(toExportedSet),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+// Writes the export to the cache directory and opens the system share sheet
+export async function exportWorkoutHistory(
+  from: string,
+  to: string,
+  format: ExportFormat
+): Promise<ExportResult> {
+  if (from > to) {
+    throw new Error('Export start date must be on or before the end date');
+  }
+
+  const sets = await getAllWorkoutSetsInRange(from, to);
+  const contents = format === 'csv' ? buildWorkoutCsv(sets) : buildWorkoutJson(sets, from, to);
+  const uri = `${FileSystem.cacheDirectory}kori-workouts-${from}-to-${to}.${format}`;
+
+  try {
+    await FileSystem.writeAsStringAsync(uri, contents, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+  } catch (err) {
+    throw new Error(`Failed to write export file: ${err instanceof Error ? err.message : err}`);
+  }
+
+  // Web and some simulators have no share sheet; the file is still written
+  if (!(await Sharing.isAvailableAsync())) {
+    return { uri, setCount: sets.length, shared: false };
+  }
+
+  await Sharing.shareAsync(uri, {
+    mimeType: format === 'csv' ? 'text/csv' : 'application/json',
+    UTI: format === 'csv' ? 'public.comma-separated-values-text' : 'public.json',
+    dialogTitle: 'Export workouts',
+  });
+
+  return { uri, setCount: sets.length, shared: true };
+}
@@ -0,0 +1,232 @@
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import type { Exercise } from '../types/exercise';
+import type { WorkoutSession } from '../types/session';
+import type { CreateWorkoutSetInput } from '../types/workout';
+import { resolveExercise } from '../utils/exerciseMatching';
+import { toPounds, type WeightUnit } from '../utils/units';
+import {
+  IMPORT_SOURCE_LABELS,
+  parseImportFile,
+  type ImportedSet,
+  type ImportSource,
+  type SkippedImportRow,
+} from '../utils/workoutImport';
+import { getCurrentUserId } from './authService';
+import { getExerciseCatalog } from './exerciseService';
+import { getAllWorkoutSetsInRange } from './exportService';
+import { importWorkoutHistory } from './workoutService';
+
+export interface ExerciseMapping {
+  sourceName: string;
+  exerciseName: string;
+  exerciseId: string | null;
+  isNew: boolean; // not in the catalog; imported under the source name
+  setCount: number;
+}
+
+// A date that already has sets in KORI that did not come from this file
+export interface ImportConflict {
+  date: string;
+  existingSets: number;
+  importedSets: number;
+}
+
+export interface ImportPreview {
+  source: ImportSource;
+  sessions: WorkoutSession[];
+  sets: CreateWorkoutSetInput[];
+  mappings: ExerciseMapping[];
+  skipped: SkippedImportRow[];
+  conflicts: ImportConflict[];
+  alreadyImported: number;
+  range: { from: string; to: string } | null;
+}
+
+export interface ImportResult {
+  sessions: number;
+  sets: number;
+  skippedForConflicts: number;
+}
+
+// "Leg Press (Machine)" -> "Leg Press"
+function withoutEquipmentSuffix(name: string): string {
+  return name.replace(/\s*\([^)]*\)\s*$/, '').trim();
+}
+
+// Maps to the catalog by the full name, then without the equipment suffix;
+// unknown exercises keep the source name so "Curl (Barbell)" and "Curl (Dumbbell)" stay apart
+function mapExerciseName(sourceName: string, catalog: Exercise[]): Omit<ExerciseMapping, 'setCount'> {
+  for (const candidate of [sourceName, withoutEquipmentSuffix(sourceName)]) {
+    const match = resolveExercise(candidate, catalog);
+    if (match.type === 'matched') {
+      return {
+        sourceName,
+        exerciseName: match.exercise.name,
+        exerciseId: match.exercise.id,
+        isNew: false,
+      };
+    }
+  }
+  return { sourceName, exerciseName: sourceName, exerciseId: null, isNew: true };
+}
+
+// Deterministic uuid so importing the same file twice doesn't duplicate anything
+async function importId(key: string): Promise<string> {
+  const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, key);
+  const variant = ((parseInt(hash[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-${variant}${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+}
+
+// Lets the user choose a CSV file; null when they cancel
+export async function pickImportFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/csv'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets[0]) {
+    return null;
+  }
+
+  try {
+    return await FileSystem.readAsStringAsync(result.assets[0].uri);
+  } catch (err) {
+    throw new Error(`Failed to read import file: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+async function toImportedSession(
+  set: ImportedSet,
+  idPrefix: string,
+  source: ImportSource,
+  userId: string | null
+): Promise<WorkoutSession> {
+  return {
+    id: await importId(`${idPrefix}:session:${set.workoutKey}`),
+    startedAt: set.startedAt,
+    localDate: set.localDate,
+    endedAt: set.endedAt ?? set.startedAt,
+    notes: set.workoutName ? `${set.workoutName} (imported from ${IMPORT_SOURCE_LABELS[source]})` : null,
+    status: 'completed',
+    userId,
+    templateId: null,
+    plan: null,
+  };
+}
+
+// Parses and maps the file without writing anything
+export async function previewWorkoutImport(text: string, strongUnit: WeightUnit): Promise<ImportPreview> {
+  const { source, sets: imported, skipped } = parseImportFile(text, strongUnit);
+  const catalog = await getExerciseCatalog();
+  const userId = getCurrentUserId();
+  // Ids are scoped to the account, since client_id is unique across all users
+  const idPrefix = `${userId ?? 'local'}:${source}`;
+
+  const mappings = new Map<string, ExerciseMapping>();
+  const sessionsByKey = new Map<string, WorkoutSession>();
+  const setCounts = new Map<string, number>();
+  const sourceOrdinals = new Map<string, number>();
+  const sets: CreateWorkoutSetInput[] = [];
+
+  for (const set of imported) {
+    const mapping = mappings.get(set.exerciseName) ?? {
+      ...mapExerciseName(set.exerciseName, catalog),
+      setCount: 0,
+    };
+    mapping.setCount += 1;
+    mappings.set(set.exerciseName, mapping);
+
+    const session = sessionsByKey.get(set.workoutKey) ?? (await toImportedSession(set, idPrefix, source, userId));
+    sessionsByKey.set(set.workoutKey, session);
+
+    // Numbered in file order per exercise within the workout, after mapping
+    const numberKey = `${set.workoutKey}|${mapping.exerciseName}`;
+    const setNumber = (setCounts.get(numberKey) ?? 0) + 1;
+    setCounts.set(numberKey, setNumber);
+
+    const ordinalKey = `${set.workoutKey}|${set.exerciseName}`;
+    const ordinal = (sourceOrdinals.get(ordinalKey) ?? 0) + 1;
+    sourceOrdinals.set(ordinalKey, ordinal);
+
+    sets.push({
+      date: set.localDate,
+      loggedAt: set.startedAt,
+      exerciseName: mapping.exerciseName,
+      weight: toPounds(set.weight, set.unit),
+      weightUnit: set.unit,
+      loadType: set.loadType,
+      reps: set.reps,
+      durationSeconds: set.durationSeconds,
+      setNumber,
+      setType: set.setType,
+      rpe: set.rpe,
+      rir: null,
+      restSeconds: null,
+      userId,
+      clientId: await importId(`${idPrefix}:set:${ordinalKey}|${ordinal}`),
+      sessionId: session.id,
+      exerciseId: mapping.exerciseId,
+    });
+  }
+
+  const dates = sets.map((set) => set.date).sort();
+  const range = dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+  const existing = range ? await getAllWorkoutSetsInRange(range.from, range.to) : [];
+
+  const existingClientIds = new Set(existing.map((set) => set.clientId));
+  const plannedClientIds = new Set(sets.map((set) => set.clientId));
+  const pending = sets.filter((set) => !existingClientIds.has(set.clientId));
+
+  // Sets saved by an earlier import of this file are not conflicts
+  const existingByDate = new Map<string, number>();
+  for (const set of existing) {
+    if (!plannedClientIds.has(set.clientId)) {
+      existingByDate.set(set.date, (existingByDate.get(set.date) ?? 0) + 1);
+    }
+  }
+
+  const importedByDate = new Map<string, number>();
+  for (const set of pending) {
+    importedByDate.set(set.date, (importedByDate.get(set.date) ?? 0) + 1);
+  }
+
+  const conflicts = [...importedByDate.entries()]
+    .filter(([date]) => existingByDate.has(date))
+    .map(([date, importedSets]) => ({ date, existingSets: existingByDate.get(date) ?? 0, importedSets }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const pendingSessionIds = new Set(pending.map((set) => set.sessionId));
+
+  return {
+    source,
+    sessions: [...sessionsByKey.values()].filter((session) => pendingSessionIds.has(session.id)),
+    sets: pending,
+    mappings: [...mappings.values()].sort((a, b) => a.sourceName.localeCompare(b.sourceName)),
+    skipped,
+    conflicts,
+    alreadyImported: sets.length - pending.length,
+    range,
+  };
+}
+
+// Writes the previewed sets; dates that already have sets can be left out
+export async function commitWorkoutImport(
+  preview: ImportPreview,
+  { skipConflictingDates }: { skipConflictingDates: boolean }
+): Promise<ImportResult> {
+  const conflictDates = new Set(skipConflictingDates ? preview.conflicts.map((c) => c.date) : []);
+  const sets = preview.sets.filter((set) => !conflictDates.has(set.date));
+  const sessionIds = new Set(sets.map((set) => set.sessionId));
+  const sessions = preview.sessions.filter((session) => sessionIds.has(session.id));
+
+  const inserted = await importWorkoutHistory(sessions, sets);
+  console.log(`📦 Imported ${inserted} set(s) from ${preview.source}`);
+
+  return {
+    sessions: sessions.length,
+    sets: inserted,
+    skippedForConflicts: preview.sets.length - sets.length,
+  };
+}
@@ -1,12 +1,64 @@
 export { startRecording, stopRecording } from './audioRecorder';
+export {
+  getCurrentUserId, handleAuthRedirect, initAuth, isAuthEnabled, signInAsGuest,
+  signInWithMagicLink, signOut, upgradeGuestAccount
+} from './authService';
+export {
+  getEquipmentSettings, getExerciseEquipment, saveExerciseEquipment, saveGymEquipment
+} from './equipmentService';
+export { createExercise, getExerciseCatalog, resolveExerciseName } from './exerciseService';
+export {
+  buildWorkoutCsv, buildWorkoutJson, EXPORT_FORMAT_VERSION, exportWorkoutHistory,
+  getAllWorkoutSetsInRange
+} from './exportService';
+export type { ExportFormat, ExportResult, ExportedWorkoutSet, WorkoutExport } from './exportService';
+export { commitWorkoutImport, pickImportFile, previewWorkoutImport } from './importService';
+export type { ExerciseMapping, ImportConflict, ImportPreview, ImportResult } from './importService';
+export {
+  findSessionRecords, getExerciseRecords, getSetRecordKey
+} from './personalRecordService';
+export {
+  getOneRepMaxFormulaPreference, getSpeakRecommendationReasonsPreference, getWeightUnitPreference,
+  setOneRepMaxFormulaPreference, setSpeakRecommendationReasonsPreference, setWeightUnitPreference
+} from './preferencesService';
+export {
+  getExerciseProgression, getProgressionSettings, saveExerciseProgression
+} from './progressionService';
+export {
+  getActiveProgram, getTodaysProgramDay, setActiveProgram
+} from './programService';
+export { getExerciseRest, getRestSettings, saveExerciseRest } from './restService';
 export { extractSetFromTranscript } from './setExtractor';
-export { supabase } from './supabase';
+export {
+  discardFailedWorkoutSet, enqueueWorkoutSession, enqueueWorkoutSet, flushPendingWorkoutSets,
+  getFailedWorkoutSets, getPendingWorkoutSessions, getPendingWorkoutSets, removeQueuedWorkoutSet,
+  retryFailedWorkoutSet, subscribeToFailedWorkoutSets, subscribeToPendingWorkoutSets, updateQueuedWorkoutSet
+} from './setQueue';
+export type { FlushResult } from './setQueue';
+export {
+  createMemoryWorkoutRepository, createSupabaseWorkoutRepository, getStorageBackend,
+  getWorkoutRepository, setWorkoutRepository
+} from './repositories';
+export type {
+  StorageBackend, WorkoutRepository, WorkoutSetChange, WorkoutSetChangeHandlers
+} from './repositories';
+export { getSupabase, isSupabaseConfigured } from './supabase';
+export {
+  createTemplateId, deleteWorkoutTemplate, getSelectedTemplateId, getWorkoutTemplates,
+  saveWorkoutTemplate, setSelectedTemplateId
+} from './templateService';
 export { isSpeaking, speak, stop } from './tts';
+export { getUserItem, removeUserItem, setUserItem, userStorageKey } from './userStorage';
 export { transcribeAudioFile } from './whisper';
 export {
-  buildAdaptationsFromLastSets, getMostRecentWorkoutDate,
-  getMostRecentWorkoutDateBefore, getWorkoutSetsByDate, logWorkoutSet
+  buildAdaptationsFromLastSets, deleteWorkoutSet, getCompletedSessionsForTemplates,
+  getExerciseHistory, getLastSessionForExercise, getMostRecentCompletedSessionBefore,
+  getMostRecentWorkoutDate, getMostRecentWorkoutDateBefore, getRecentWorkoutSessions, getSyncedWorkoutSet,
+  getWorkoutSetsByDate,
+  getWorkoutSetsBySession, getWorkoutSetsInRange, importWorkoutHistory, logWorkoutSet,
+  renumberExerciseSets, saveWorkoutSession, subscribeToSessionSets, updateWorkoutSet
 } from './workoutService';
+export type { Adaptation, AdaptationOptions, ExerciseSession } from './workoutService';
 export { listenForWorkoutSet } from './workoutSetListener';
 export type { ListenResult } from './workoutSetListener';
 export { listenForYesNoOnce } from './yesNoListener';
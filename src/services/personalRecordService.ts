@@ -0,0 +1,69 @@
+import { isPendingWorkoutSet, type LoggedWorkoutSet, type WorkoutSet } from '../types/workout';
+import type { OneRepMaxFormula } from '../utils/oneRepMax';
+import {
+  buildExerciseRecords,
+  findNewRecords,
+  type ExerciseRecords,
+  type PersonalRecord,
+} from '../utils/personalRecords';
+import { getExerciseHistory } from './workoutService';
+
+const HISTORY_PAGE_SIZE = 500;
+
+async function getFullExerciseHistory(exerciseName: string): Promise<WorkoutSet[]> {
+  const sets: WorkoutSet[] = [];
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const page = await getExerciseHistory(exerciseName, HISTORY_PAGE_SIZE, offset);
+    sets.push(...page.items);
+    offset = page.nextOffset;
+  }
+
+  return sets;
+}
+
+// Records from every workout except the given session, so its own sets can be compared against them
+export async function getExerciseRecords(
+  exerciseName: string,
+  excludeSessionId: string | null,
+  formula: OneRepMaxFormula
+): Promise<ExerciseRecords> {
+  const history = await getFullExerciseHistory(exerciseName);
+  return buildExerciseRecords(
+    history.filter((set) => !excludeSessionId || set.sessionId !== excludeSessionId),
+    formula
+  );
+}
+
+export function getSetRecordKey(set: LoggedWorkoutSet): string {
+  return isPendingWorkoutSet(set) ? set.clientId : set.clientId ?? String(set.id);
+}
+
+// Replays the session in logging order; keyed by getSetRecordKey, sets without records are left out
+export async function findSessionRecords(
+  sets: LoggedWorkoutSet[],
+  sessionId: string | null,
+  formula: OneRepMaxFormula
+): Promise<Record<string, PersonalRecord[]>> {
+  const ordered = [...sets].sort((a, b) => a.loggedAt.localeCompare(b.loggedAt));
+  const exerciseNames = [...new Set(ordered.map((set) => set.exerciseName))];
+  const recordsByExercise = new Map(
+    await Promise.all(
+      exerciseNames.map(async (name) => [name, await getExerciseRecords(name, sessionId, formula)] as const)
+    )
+  );
+
+  const result: Record<string, PersonalRecord[]> = {};
+  ordered.forEach((set, index) => {
+    const previous = recordsByExercise.get(set.exerciseName);
+    if (!previous) return;
+
+    const earlier = ordered.slice(0, index).filter((other) => other.exerciseName === set.exerciseName);
+    const found = findNewRecords(set, previous, earlier, formula);
+    if (found.length > 0) {
+      result[getSetRecordKey(set)] = found;
+    }
+  });
+  return result;
+}
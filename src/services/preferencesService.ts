@@ -0,0 +1,82 @@
+import { parseOneRepMaxFormula, type OneRepMaxFormula } from '../utils/oneRepMax';
+import { parseWeightUnit, type WeightUnit } from '../utils/units';
+import { isAuthEnabled } from './authService';
+import { getSupabase } from './supabase';
+import { getUserItem, setUserItem } from './userStorage';
+
+const WEIGHT_UNIT_KEY = 'kori.weightUnit';
+const DEFAULT_WEIGHT_UNIT: WeightUnit = 'lb';
+const ONE_REP_MAX_FORMULA_KEY = 'kori.oneRepMaxFormula';
+const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'epley';
+const SPEAK_RECOMMENDATION_REASONS_KEY = 'kori.speakRecommendationReasons';
+
+async function getAccountMetadata(): Promise<Record<string, unknown> | null> {
+  if (!isAuthEnabled()) return null;
+
+  try {
+    const { data } = await getSupabase().auth.getSession();
+    return data.session?.user.user_metadata ?? null;
+  } catch (err) {
+    console.warn('Failed to read preferences from account:', err);
+    return null;
+  }
+}
+
+async function saveAccountMetadata(metadata: Record<string, unknown>): Promise<void> {
+  if (!isAuthEnabled()) return;
+
+  const { error } = await getSupabase().auth.updateUser({ data: metadata });
+  if (error) {
+    // Kept locally; the account copy is updated next time
+    console.warn('Failed to save preferences to account:', error.message);
+  }
+}
+
+// The account's preference wins so it follows the user across devices;
+// the local copy covers demo mode and offline starts.
+export async function getWeightUnitPreference(): Promise<WeightUnit> {
+  const fromAccount = parseWeightUnit((await getAccountMetadata())?.weight_unit as string | undefined);
+  if (fromAccount) {
+    return fromAccount;
+  }
+
+  const stored = await getUserItem(WEIGHT_UNIT_KEY);
+  return parseWeightUnit(stored) ?? DEFAULT_WEIGHT_UNIT;
+}
+
+export async function setWeightUnitPreference(unit: WeightUnit): Promise<void> {
+  await setUserItem(WEIGHT_UNIT_KEY, unit);
+  await saveAccountMetadata({ weight_unit: unit });
+}
+
+export async function getOneRepMaxFormulaPreference(): Promise<OneRepMaxFormula> {
+  const fromAccount = parseOneRepMaxFormula(
+    (await getAccountMetadata())?.one_rep_max_formula as string | undefined
+  );
+  if (fromAccount) {
+    return fromAccount;
+  }
+
+  const stored = await getUserItem(ONE_REP_MAX_FORMULA_KEY);
+  return parseOneRepMaxFormula(stored) ?? DEFAULT_ONE_REP_MAX_FORMULA;
+}
+
+export async function setOneRepMaxFormulaPreference(formula: OneRepMaxFormula): Promise<void> {
+  await setUserItem(ONE_REP_MAX_FORMULA_KEY, formula);
+  await saveAccountMetadata({ one_rep_max_formula: formula });
+}
+
+// Whether "Play Recommendations" also reads out why; off by default to keep it short
+export async function getSpeakRecommendationReasonsPreference(): Promise<boolean> {
+  const fromAccount = (await getAccountMetadata())?.speak_recommendation_reasons;
+  if (typeof fromAccount === 'boolean') {
+    return fromAccount;
+  }
+
+  return (await getUserItem(SPEAK_RECOMMENDATION_REASONS_KEY)) === 'true';
+}
+
+export async function setSpeakRecommendationReasonsPreference(enabled: boolean): Promise<void> {
+  await setUserItem(SPEAK_RECOMMENDATION_REASONS_KEY, String(enabled));
+  await saveAccountMetadata({ speak_recommendation_reasons: enabled });
+}
@@ -0,0 +1,81 @@
+import { DEFAULT_PROGRAMS, type ActiveProgram } from '../types/program';
+import type { WorkoutSession } from '../types/session';
+import { scheduleProgramDay, type ProgramDay } from '../utils/programs';
+import { getPendingWorkoutSessions } from './setQueue';
+import { getUserItem, removeUserItem, setUserItem } from './userStorage';
+import { getCompletedSessionsForTemplates } from './workoutService';
+
+const ACTIVE_PROGRAM_KEY = 'kori.activeProgram';
+
+export async function getActiveProgram(): Promise<ActiveProgram | null> {
+  const raw = await getUserItem(ACTIVE_PROGRAM_KEY);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as ActiveProgram;
+  } catch (err) {
+    console.warn('Corrupt active program, resetting:', err);
+    return null;
+  }
+}
+
+// Starting a program (again) begins at its first day; null goes back to single templates
+export async function setActiveProgram(programId: string | null): Promise<ActiveProgram | null> {
+  if (!programId) {
+    await removeUserItem(ACTIVE_PROGRAM_KEY);
+    return null;
+  }
+
+  const active: ActiveProgram = { programId, startedAt: new Date().toISOString() };
+  await setUserItem(ACTIVE_PROGRAM_KEY, JSON.stringify(active));
+  return active;
+}
+
+// Null when the stored training maxes were taken in an earlier cycle (or never)
+export async function getCycleTrainingMaxes(cycle: number): Promise<Record<string, number> | null> {
+  const active = await getActiveProgram();
+  return active?.trainingMaxes?.cycle === cycle ? active.trainingMaxes.lb : null;
+}
+
+// Adds lifts to the cycle's training maxes; a lift already taken this cycle keeps its value
+export async function saveCycleTrainingMaxes(cycle: number, maxesLb: Record<string, number>): Promise<void> {
+  const active = await getActiveProgram();
+  if (!active) return;
+
+  const taken = active.trainingMaxes?.cycle === cycle ? active.trainingMaxes.lb : {};
+  const updated: ActiveProgram = { ...active, trainingMaxes: { cycle, lb: { ...maxesLb, ...taken } } };
+  await setUserItem(ACTIVE_PROGRAM_KEY, JSON.stringify(updated));
+}
+
+// Workouts finished offline count before they are uploaded
+async function getProgramSessions(templateIds: string[], since: string): Promise<WorkoutSession[]> {
+  const [saved, pending] = await Promise.all([
+    getCompletedSessionsForTemplates(templateIds, since),
+    getPendingWorkoutSessions(),
+  ]);
+
+  const byId = new Map(saved.map((session) => [session.id, session]));
+  for (const session of pending) {
+    byId.set(session.id, session);
+  }
+  return [...byId.values()].filter(
+    (session) =>
+      session.status === 'completed' &&
+      session.templateId !== null &&
+      templateIds.includes(session.templateId) &&
+      session.startedAt >= since
+  );
+}
+
+// Which day (and percentage week) of the active program is next; null without one
+export async function getTodaysProgramDay(): Promise<ProgramDay | null> {
+  const active = await getActiveProgram();
+  const program = DEFAULT_PROGRAMS.find((candidate) => candidate.id === active?.programId);
+  if (!active || !program) return null;
+
+  const sessions = await getProgramSessions(
+    program.days.map((day) => day.id),
+    active.startedAt
+  );
+  return scheduleProgramDay(program, sessions);
+}
@@ -0,0 +1,44 @@
+import {
+  DEFAULT_PROGRESSION_CONFIG,
+  type ProgressionConfig,
+  type ProgressionSettings,
+} from '../types/progression';
+import { getUserItem, setUserItem } from './userStorage';
+
+const PROGRESSION_SETTINGS_KEY = 'kori.progressionSettings';
+
+// Kept on the device; missing fields fall back to the defaults
+export async function getProgressionSettings(): Promise<ProgressionSettings> {
+  const raw = await getUserItem(PROGRESSION_SETTINGS_KEY);
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw) as ProgressionSettings;
+  } catch (err) {
+    console.warn('Corrupt progression settings, resetting:', err);
+    return {};
+  }
+}
+
+export function getExerciseProgression(
+  settings: ProgressionSettings,
+  exerciseName: string
+): ProgressionConfig {
+  const saved = settings[exerciseName];
+  return saved
+    ? {
+        ...DEFAULT_PROGRESSION_CONFIG,
+        ...saved,
+        repRange: { ...DEFAULT_PROGRESSION_CONFIG.repRange, ...saved.repRange },
+      }
+    : DEFAULT_PROGRESSION_CONFIG;
+}
+
+export async function saveExerciseProgression(
+  exerciseName: string,
+  config: ProgressionConfig
+): Promise<ProgressionSettings> {
+  const next = { ...(await getProgressionSettings()), [exerciseName]: config };
+  await setUserItem(PROGRESSION_SETTINGS_KEY, JSON.stringify(next));
+  return next;
+}
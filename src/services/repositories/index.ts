@@ -0,0 +1,38 @@
+import { isSupabaseConfigured } from '../supabase';
+import { createMemoryWorkoutRepository } from './memoryWorkoutRepository';
+import { createSupabaseWorkoutRepository } from './supabaseWorkoutRepository';
+import type { StorageBackend, WorkoutRepository } from './types';
+
+export { createMemoryWorkoutRepository } from './memoryWorkoutRepository';
+export { createSupabaseWorkoutRepository } from './supabaseWorkoutRepository';
+export type {
+  StorageBackend, WorkoutRepository, WorkoutSetChange, WorkoutSetChangeHandlers
+} from './types';
+
+let repository: WorkoutRepository | null = null;
+
+// EXPO_PUBLIC_STORAGE_BACKEND=memory|supabase. Without it, fall back to
+// memory (demo mode) when Supabase is not configured.
+export function getStorageBackend(): StorageBackend {
+  const configured = process.env.EXPO_PUBLIC_STORAGE_BACKEND;
+  if (configured === 'memory' || configured === 'supabase') {
+    return configured;
+  }
+  return isSupabaseConfigured() ? 'supabase' : 'memory';
+}
+
+export function getWorkoutRepository(): WorkoutRepository {
+  if (!repository) {
+    const backend = getStorageBackend();
+    console.log('🗄️ Storage backend:', backend);
+    repository = backend === 'supabase'
+      ? createSupabaseWorkoutRepository()
+      : createMemoryWorkoutRepository();
+  }
+  return repository;
+}
+
+// Swap the backend at runtime, e.g. a seeded memory repository in tests
+export function setWorkoutRepository(next: WorkoutRepository | null): void {
+  repository = next;
+}
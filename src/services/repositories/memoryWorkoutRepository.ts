@@ -0,0 +1,207 @@
+import { DEFAULT_EXERCISES } from '../../data/defaultExercises';
+import type { Exercise } from '../../types/exercise';
+import { toPage } from '../../types/pagination';
+import type { WorkoutSession } from '../../types/session';
+import type { WorkoutSet } from '../../types/workout';
+import type { WorkoutRepository, WorkoutSetChange, WorkoutSetChangeHandlers } from './types';
+
+function compareSets(a: WorkoutSet, b: WorkoutSet): number {
+  return a.exerciseName.localeCompare(b.exerciseName) || a.setNumber - b.setNumber;
+}
+
+function latestDate(sets: WorkoutSet[]): string | null {
+  return sets.reduce<string | null>(
+    (latest, set) => (latest === null || set.date > latest ? set.date : latest),
+    null
+  );
+}
+
+// Keeps everything in memory. Used for demo mode and for testing hooks
+// without a network; pass `seed` to start from existing history.
+// It is local to the device, so it holds a single user's data and is not scoped.
+export function createMemoryWorkoutRepository(
+  seed: WorkoutSet[] = [],
+  seedSessions: WorkoutSession[] = [],
+  seedExercises: Exercise[] = DEFAULT_EXERCISES
+): WorkoutRepository {
+  const sets: WorkoutSet[] = seed.map((set) => ({ ...set }));
+  const sessions: WorkoutSession[] = seedSessions.map((session) => ({ ...session }));
+  const exercises: Exercise[] = seedExercises.map((exercise) => ({ ...exercise }));
+  let nextId = sets.reduce((max, set) => Math.max(max, set.id), 0) + 1;
+  const subscribers = new Map<string, Set<WorkoutSetChangeHandlers>>();
+
+  const notify = (sessionId: string | null, change: WorkoutSetChange) => {
+    if (!sessionId) return;
+    subscribers.get(sessionId)?.forEach((handlers) => handlers.onChange(change));
+  };
+
+  return {
+    async logWorkoutSet(input) {
+      const existing = input.clientId
+        ? sets.find((set) => set.clientId === input.clientId)
+        : undefined;
+
+      if (existing) {
+        return { ...existing };
+      }
+
+      const setNumber = sets
+        .filter((set) =>
+          set.exerciseName === input.exerciseName &&
+          (input.sessionId ? set.sessionId === input.sessionId : !set.sessionId && set.date === input.date)
+        )
+        .reduce((max, set) => Math.max(max, set.setNumber), 0) + 1;
+
+      const saved: WorkoutSet = { ...input, setNumber, id: nextId++ };
+      sets.push(saved);
+      notify(saved.sessionId, { type: 'upsert', set: { ...saved } });
+      return { ...saved };
+    },
+
+    async updateWorkoutSet(id, changes) {
+      const existing = sets.find((set) => set.id === id);
+      if (!existing) {
+        throw new Error(`Failed to update workout set ${id}: Not found`);
+      }
+
+      Object.assign(existing, changes);
+      notify(existing.sessionId, { type: 'upsert', set: { ...existing } });
+      return { ...existing };
+    },
+
+    async deleteWorkoutSet(id) {
+      const index = sets.findIndex((set) => set.id === id);
+      if (index === -1) {
+        throw new Error(`Failed to delete workout set ${id}: Not found`);
+      }
+
+      const [removed] = sets.splice(index, 1);
+      notify(removed.sessionId, { type: 'delete', id });
+    },
+
+    async getWorkoutSetsByDate(date) {
+      return sets
+        .filter((set) => set.date === date)
+        .sort(compareSets)
+        .map((set) => ({ ...set }));
+    },
+
+    async getMostRecentWorkoutDate() {
+      return latestDate(sets);
+    },
+
+    async getMostRecentWorkoutDateBefore(date) {
+      return latestDate(sets.filter((set) => set.date < date));
+    },
+
+    async getWorkoutSetsBySession(sessionId) {
+      return sets
+        .filter((set) => set.sessionId === sessionId)
+        .sort(compareSets)
+        .map((set) => ({ ...set }));
+    },
+
+    // Same-device only: every screen reading a session sees writes from the others
+    subscribeToSessionSets(sessionId, handlers) {
+      const sessionSubscribers = subscribers.get(sessionId) ?? new Set();
+      sessionSubscribers.add(handlers);
+      subscribers.set(sessionId, sessionSubscribers);
+
+      return () => {
+        sessionSubscribers.delete(handlers);
+      };
+    },
+
+    async getWorkoutSetsInRange(from, to, { limit, offset }) {
+      const rows = sets
+        .filter((set) => set.date >= from && set.date <= to)
+        .sort((a, b) => a.date.localeCompare(b.date) || compareSets(a, b) || a.id - b.id)
+        .slice(offset, offset + limit + 1)
+        .map((set) => ({ ...set }));
+      return toPage(rows, limit, offset);
+    },
+
+    async getExerciseHistory(exerciseName, { limit, offset }) {
+      const rows = sets
+        .filter((set) => set.exerciseName === exerciseName)
+        .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id)
+        .slice(offset, offset + limit + 1)
+        .map((set) => ({ ...set }));
+      return toPage(rows, limit, offset);
+    },
+
+    async saveWorkoutSession(session) {
+      const index = sessions.findIndex((existing) => existing.id === session.id);
+      if (index === -1) {
+        sessions.push({ ...session });
+      } else {
+        sessions[index] = { ...session };
+      }
+      return { ...session };
+    },
+
+    async getRecentWorkoutSessions(limit) {
+      return [...sessions]
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+        .slice(0, limit)
+        .map((session) => ({ ...session }));
+    },
+
+    async getMostRecentCompletedSessionBefore(startedAt) {
+      const previous = sessions
+        .filter((session) => session.status === 'completed' && session.startedAt < startedAt)
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+      return previous ? { ...previous } : null;
+    },
+
+    async getCompletedSessionsForTemplates(templateIds, since) {
+      return sessions
+        .filter(
+          (session) =>
+            session.status === 'completed' &&
+            session.templateId !== null &&
+            templateIds.includes(session.templateId) &&
+            session.startedAt >= since
+        )
+        .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+        .map((session) => ({ ...session }));
+    },
+
+    async importWorkoutHistory(importedSessions, importedSets) {
+      for (const session of importedSessions) {
+        const index = sessions.findIndex((existing) => existing.id === session.id);
+        if (index === -1) {
+          sessions.push({ ...session });
+        } else {
+          sessions[index] = { ...session };
+        }
+      }
+
+      let inserted = 0;
+      for (const input of importedSets) {
+        if (input.clientId && sets.some((set) => set.clientId === input.clientId)) {
+          continue;
+        }
+        sets.push({ ...input, id: nextId++ });
+        inserted++;
+      }
+      return inserted;
+    },
+
+    async getExercises() {
+      return [...exercises]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((exercise) => ({ ...exercise }));
+    },
+
+    async saveExercise(exercise) {
+      const index = exercises.findIndex((existing) => existing.id === exercise.id);
+      if (index === -1) {
+        exercises.push({ ...exercise });
+      } else {
+        exercises[index] = { ...exercise };
+      }
+      return { ...exercise };
+    },
+  };
+}
@@ -0,0 +1,492 @@
+import type { Exercise, ExerciseRow } from '../../types/exercise';
+import { toPage } from '../../types/pagination';
+import type { WorkoutSession, WorkoutSessionRow } from '../../types/session';
+import type {
+  LogWorkoutSetInput,
+  UpdateWorkoutSetInput,
+  WorkoutSet,
+  WorkoutSetRow,
+} from '../../types/workout';
+import { getSupabase } from '../supabase';
+import type { WorkoutRepository } from './types';
+
+// Realtime topics must be unique per subscription
+let channelCount = 0;
+
+// Keeps bulk writes under PostgREST's request size limits
+const IMPORT_BATCH_SIZE = 500;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function rowToWorkoutSet(row: WorkoutSetRow): WorkoutSet {
+  return {
+    id: row.id,
+    date: row.date,
+    loggedAt: row.logged_at,
+    exerciseName: row.exercise_name,
+    weight: Number(row.weight),
+    weightUnit: row.weight_unit ?? 'lb',
+    loadType: row.load_type ?? 'weighted',
+    reps: row.reps,
+    durationSeconds: row.duration_seconds,
+    setNumber: row.set_number,
+    setType: row.set_type ?? 'working',
+    rpe: row.rpe === null ? null : Number(row.rpe),
+    rir: row.rir,
+    restSeconds: row.rest_seconds ?? null,
+    userId: row.user_id,
+    clientId: row.client_id,
+    sessionId: row.session_id,
+    exerciseId: row.exercise_id,
+  };
+}
+
+function workoutSetToRow(set: LogWorkoutSetInput): Omit<WorkoutSetRow, 'id' | 'set_number'> {
+  return {
+    date: set.date,
+    logged_at: set.loggedAt,
+    exercise_name: set.exerciseName,
+    weight: set.weight,
+    weight_unit: set.weightUnit,
+    load_type: set.loadType,
+    reps: set.reps,
+    duration_seconds: set.durationSeconds,
+    set_type: set.setType,
+    rpe: set.rpe,
+    rir: set.rir,
+    rest_seconds: set.restSeconds,
+    user_id: set.userId,
+    client_id: set.clientId,
+    session_id: set.sessionId,
+    exercise_id: set.exerciseId,
+  };
+}
+
+function rowToWorkoutSession(row: WorkoutSessionRow): WorkoutSession {
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    localDate: row.local_date,
+    endedAt: row.ended_at,
+    notes: row.notes,
+    status: row.status,
+    userId: row.user_id,
+    templateId: row.template_id ?? null,
+    plan: row.plan ?? null,
+  };
+}
+
+function workoutSessionToRow(session: WorkoutSession): WorkoutSessionRow {
+  return {
+    id: session.id,
+    started_at: session.startedAt,
+    local_date: session.localDate,
+    ended_at: session.endedAt,
+    notes: session.notes,
+    status: session.status,
+    user_id: session.userId,
+    template_id: session.templateId,
+    plan: session.plan,
+  };
+}
+
+function rowToExercise(row: ExerciseRow): Exercise {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: row.aliases || [],
+    equipment: row.equipment,
+    muscleGroups: row.muscle_groups || [],
+    userId: row.user_id,
+  };
+}
+
+function exerciseToRow(exercise: Exercise): ExerciseRow {
+  return {
+    id: exercise.id,
+    name: exercise.name,
+    aliases: exercise.aliases,
+    equipment: exercise.equipment,
+    muscle_groups: exercise.muscleGroups,
+    user_id: exercise.userId,
+  };
+}
+
+function changesToRow(changes: UpdateWorkoutSetInput): Partial<WorkoutSetRow> {
+  const row: Partial<WorkoutSetRow> = {};
+  if (changes.exerciseName !== undefined) row.exercise_name = changes.exerciseName;
+  if (changes.exerciseId !== undefined) row.exercise_id = changes.exerciseId;
+  if (changes.weight !== undefined) row.weight = changes.weight;
+  if (changes.weightUnit !== undefined) row.weight_unit = changes.weightUnit;
+  if (changes.loadType !== undefined) row.load_type = changes.loadType;
+  if (changes.reps !== undefined) row.reps = changes.reps;
+  if (changes.durationSeconds !== undefined) row.duration_seconds = changes.durationSeconds;
+  if (changes.setNumber !== undefined) row.set_number = changes.setNumber;
+  if (changes.setType !== undefined) row.set_type = changes.setType;
+  if (changes.rpe !== undefined) row.rpe = changes.rpe;
+  if (changes.rir !== undefined) row.rir = changes.rir;
+  if (changes.restSeconds !== undefined) row.rest_seconds = changes.restSeconds;
+  return row;
+}
+
+// Every query is scoped to the signed-in user (row level security enforces the same)
+async function requireUserId(): Promise<string> {
+  const { data } = await getSupabase().auth.getSession();
+  const userId = data.session?.user.id;
+  if (!userId) {
+    throw new Error('Not signed in');
+  }
+  return userId;
+}
+
+export function createSupabaseWorkoutRepository(): WorkoutRepository {
+  return {
+    async logWorkoutSet(input) {
+      const supabase = getSupabase();
+      const userId = await requireUserId();
+      const row = { ...workoutSetToRow(input), user_id: input.userId ?? userId };
+
+      // The database numbers the set and dedupes retries on client_id
+      // (see supabase/migrations/*_server_set_numbering.sql)
+      const { data, error } = await supabase.rpc('log_workout_set', { p_set: row });
+
+      if (error) {
+        // The cause keeps the Postgres error code so the set queue can tell rejections from outages
+        throw new Error(`Failed to log workout set: ${error.message}`, { cause: error });
+      }
+
+      if (!data) {
+        throw new Error('Failed to log workout set: No data returned');
+      }
+
+      return rowToWorkoutSet(data);
+    },
+
+    async updateWorkoutSet(id, changes) {
+      const { data, error } = await getSupabase()
+        .from('workout_sets')
+        .update(changesToRow(changes))
+        .eq('id', id)
+        .eq('user_id', await requireUserId())
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update workout set ${id}: ${error.message}`);
+      }
+
+      return rowToWorkoutSet(data);
+    },
+
+    async deleteWorkoutSet(id) {
+      const { error } = await getSupabase()
+        .from('workout_sets')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', await requireUserId());
+
+      if (error) {
+        throw new Error(`Failed to delete workout set ${id}: ${error.message}`);
+      }
+    },
+
+    async getWorkoutSetsByDate(date) {
+      const { data, error } = await getSupabase()
+        .from('workout_sets')
+        .select('*')
+        .eq('user_id', await requireUserId())
+        .eq('date', date)
+        .order('exercise_name', { ascending: true })
+        .order('set_number', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to get workout sets: ${error.message}`);
+      }
+
+      return (data || []).map(rowToWorkoutSet);
+    },
+
+    async getMostRecentWorkoutDate() {
+      const { data, error } = await getSupabase()
+        .from('workout_sets')
+        .select('date')
+        .eq('user_id', await requireUserId())
+        .order('date', { ascending: false })
+        .limit(1)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null;
+        }
+        throw new Error(`Failed to get most recent workout date: ${error.message}`);
+      }
+
+      return data?.date || null;
+    },
+
+    async getMostRecentWorkoutDateBefore(date) {
+      const { data, error } = await getSupabase()
+        .from('workout_sets')
+        .select('date')
+        .eq('user_id', await requireUserId())
+        .lt('date', date)
+        .order('date', { ascending: false })
+        .limit(1)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null;
+        }
+        throw new Error(`Failed to get most recent workout date before ${date}: ${error.message}`);
+      }
+
+      return data?.date || null;
+    },
+
+    async getWorkoutSetsBySession(sessionId) {
+      const { data, error } = await getSupabase()
+        .from('workout_sets')
+        .select('*')
+        .eq('user_id', await requireUserId())
+        .eq('session_id', sessionId)
+        .order('exercise_name', { ascending: true })
+        .order('set_number', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to get workout sets for session ${sessionId}: ${error.message}`);
+      }
+
+      return (data || []).map(rowToWorkoutSet);
+    },
+
+    subscribeToSessionSets(sessionId, { onChange, onResync }) {
+      const supabase = getSupabase();
+      const sessionFilter = {
+        schema: 'public',
+        table: 'workout_sets',
+        filter: `session_id=eq.${sessionId}`,
+      };
+      let hasSubscribed = false;
+
+      // Row level security limits events to the signed-in user's rows
+      const channel = supabase
+        .channel(`workout_sets:${sessionId}:${++channelCount}`)
+        .on<WorkoutSetRow>('postgres_changes', { event: 'INSERT', ...sessionFilter }, (payload) =>
+          onChange({ type: 'upsert', set: rowToWorkoutSet(payload.new) })
+        )
+        .on<WorkoutSetRow>('postgres_changes', { event: 'UPDATE', ...sessionFilter }, (payload) =>
+          onChange({ type: 'upsert', set: rowToWorkoutSet(payload.new) })
+        )
+        // Delete events cannot be filtered; ids from other sessions are ignored by the caller
+        .on<WorkoutSetRow>(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table: 'workout_sets' },
+          (payload) => {
+            if (payload.old.id !== undefined) {
+              onChange({ type: 'delete', id: payload.old.id });
+            }
+          }
+        )
+        .subscribe((status, err) => {
+          if (status === 'SUBSCRIBED') {
+            // The channel rejoins by itself after a drop; anything sent meanwhile was missed
+            if (hasSubscribed) onResync();
+            hasSubscribed = true;
+          } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            console.warn(`Realtime ${status} for session ${sessionId}:`, err?.message);
+          }
+        });
+
+      return () => {
+        supabase.removeChannel(channel).catch((removeErr) =>
+          console.warn('Failed to remove realtime channel:', removeErr)
+        );
+      };
+    },
+
+    async getWorkoutSetsInRange(from, to, { limit, offset }) {
+      const { data, error } = await getSupabase()
+        .from('workout_sets')
+        .select('*')
+        .eq('user_id', await requireUserId())
+        .gte('date', from)
+        .lte('date', to)
+        .order('date', { ascending: true })
+        .order('exercise_name', { ascending: true })
+        .order('set_number', { ascending: true })
+        // Two workouts on one day both have "set 1"; id keeps pages from skipping or repeating rows
+        .order('id', { ascending: true })
+        .range(offset, offset + limit);
+
+      if (error) {
+        throw new Error(`Failed to get workout sets from ${from} to ${to}: ${error.message}`);
+      }
+
+      return toPage((data || []).map(rowToWorkoutSet), limit, offset);
+    },
+
+    async getExerciseHistory(exerciseName, { limit, offset }) {
+      const { data, error } = await getSupabase()
+        .from('workout_sets')
+        .select('*')
+        .eq('user_id', await requireUserId())
+        .eq('exercise_name', exerciseName)
+        .order('date', { ascending: false })
+        .order('id', { ascending: false })
+        .range(offset, offset + limit);
+
+      if (error) {
+        throw new Error(`Failed to get history for ${exerciseName}: ${error.message}`);
+      }
+
+      return toPage((data || []).map(rowToWorkoutSet), limit, offset);
+    },
+
+    async saveWorkoutSession(session) {
+      const userId = await requireUserId();
+      const row = { ...workoutSessionToRow(session), user_id: session.userId ?? userId };
+      const { data, error } = await getSupabase()
+        .from('workout_sessions')
+        .upsert(row, { onConflict: 'id' })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save workout session: ${error.message}`, { cause: error });
+      }
+
+      return rowToWorkoutSession(data);
+    },
+
+    async getRecentWorkoutSessions(limit) {
+      const { data, error } = await getSupabase()
+        .from('workout_sessions')
+        .select('*')
+        .eq('user_id', await requireUserId())
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to get workout sessions: ${error.message}`);
+      }
+
+      return (data || []).map(rowToWorkoutSession);
+    },
+
+    async getMostRecentCompletedSessionBefore(startedAt) {
+      const { data, error } = await getSupabase()
+        .from('workout_sessions')
+        .select('*')
+        .eq('user_id', await requireUserId())
+        .eq('status', 'completed')
+        .lt('started_at', startedAt)
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to get previous workout session: ${error.message}`);
+      }
+
+      return data ? rowToWorkoutSession(data) : null;
+    },
+
+    async getCompletedSessionsForTemplates(templateIds, since) {
+      if (templateIds.length === 0) return [];
+
+      const { data, error } = await getSupabase()
+        .from('workout_sessions')
+        .select('*')
+        .eq('user_id', await requireUserId())
+        .eq('status', 'completed')
+        .in('template_id', templateIds)
+        .gte('started_at', since)
+        .order('started_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to get program sessions: ${error.message}`);
+      }
+
+      return (data || []).map(rowToWorkoutSession);
+    },
+
+    async importWorkoutHistory(sessions, sets) {
+      const supabase = getSupabase();
+      const userId = await requireUserId();
+
+      for (const batch of chunk(sessions, IMPORT_BATCH_SIZE)) {
+        const { error } = await supabase
+          .from('workout_sessions')
+          .upsert(batch.map((session) => ({ ...workoutSessionToRow(session), user_id: userId })), {
+            onConflict: 'id',
+          });
+
+        if (error) {
+          throw new Error(`Failed to import workout sessions: ${error.message}`);
+        }
+      }
+
+      // Inserted directly rather than through log_workout_set so the original
+      // set numbers are kept; re-imports are ignored on client_id
+      let inserted = 0;
+      for (const batch of chunk(sets, IMPORT_BATCH_SIZE)) {
+        const { data, error } = await supabase
+          .from('workout_sets')
+          .upsert(
+            batch.map((set) => ({
+              ...workoutSetToRow(set),
+              set_number: set.setNumber,
+              user_id: userId,
+            })),
+            { onConflict: 'client_id', ignoreDuplicates: true }
+          )
+          .select('id');
+
+        if (error) {
+          throw new Error(`Failed to import workout sets: ${error.message}`);
+        }
+        inserted += (data || []).length;
+      }
+
+      return inserted;
+    },
+
+    async getExercises() {
+      const userId = await requireUserId();
+      const { data, error } = await getSupabase()
+        .from('exercises')
+        .select('*')
+        .or(`user_id.is.null,user_id.eq.${userId}`)
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to get exercises: ${error.message}`);
+      }
+
+      return (data || []).map(rowToExercise);
+    },
+
+    async saveExercise(exercise) {
+      const userId = await requireUserId();
+      const { data, error } = await getSupabase()
+        .from('exercises')
+        .upsert({ ...exerciseToRow(exercise), user_id: userId }, { onConflict: 'id' })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save exercise: ${error.message}`);
+      }
+
+      return rowToExercise(data);
+    },
+  };
+}
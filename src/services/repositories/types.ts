@@ -0,0 +1,58 @@
+import type { Exercise } from '../../types/exercise';
+import type { Page, PageOptions } from '../../types/pagination';
+import type { WorkoutSession } from '../../types/session';
+import type {
+  CreateWorkoutSetInput,
+  LogWorkoutSetInput,
+  UpdateWorkoutSetInput,
+  WorkoutSet,
+} from '../../types/workout';
+
+export type WorkoutSetChange =
+  | { type: 'upsert'; set: WorkoutSet }
+  | { type: 'delete'; id: number };
+
+export interface WorkoutSetChangeHandlers {
+  onChange: (change: WorkoutSetChange) => void;
+  // Called when a dropped connection comes back, so the caller can back-fill the gap
+  onResync: () => void;
+}
+
+// Storage backend for workout data. Implementations must be interchangeable:
+// the service layer and hooks only ever talk to this interface.
+export interface WorkoutRepository {
+  // Assigns the next set number for the exercise in the same session (or date)
+  // atomically; logging the same clientId again returns the first saved row
+  logWorkoutSet(input: LogWorkoutSetInput): Promise<WorkoutSet>;
+  updateWorkoutSet(id: number, changes: UpdateWorkoutSetInput): Promise<WorkoutSet>;
+  deleteWorkoutSet(id: number): Promise<void>;
+  getWorkoutSetsByDate(date: string): Promise<WorkoutSet[]>;
+  getMostRecentWorkoutDate(): Promise<string | null>;
+  getMostRecentWorkoutDateBefore(date: string): Promise<string | null>;
+  getWorkoutSetsBySession(sessionId: string): Promise<WorkoutSet[]>;
+  // Live inserts, edits and deletes from any device; returns an unsubscribe function
+  subscribeToSessionSets(sessionId: string, handlers: WorkoutSetChangeHandlers): () => void;
+
+  // History: date range is inclusive (YYYY-MM-DD), oldest first. Both orders end
+  // with the row id so offset pages never skip or repeat a set.
+  getWorkoutSetsInRange(from: string, to: string, page: Required<PageOptions>): Promise<Page<WorkoutSet>>;
+  // Newest first
+  getExerciseHistory(exerciseName: string, page: Required<PageOptions>): Promise<Page<WorkoutSet>>;
+
+  // Sessions are keyed by a device-generated id, so saving is an upsert
+  saveWorkoutSession(session: WorkoutSession): Promise<WorkoutSession>;
+  getRecentWorkoutSessions(limit: number): Promise<WorkoutSession[]>;
+  getMostRecentCompletedSessionBefore(startedAt: string): Promise<WorkoutSession | null>;
+  // Completed sessions started from any of the templates since the given time, oldest first
+  getCompletedSessionsForTemplates(templateIds: string[], since: string): Promise<WorkoutSession[]>;
+
+  // Bulk import that keeps the given dates and set numbers. Sets whose clientId
+  // is already saved are skipped; returns how many sets were inserted.
+  importWorkoutHistory(sessions: WorkoutSession[], sets: CreateWorkoutSetInput[]): Promise<number>;
+
+  // Built-in exercises plus the user's own
+  getExercises(): Promise<Exercise[]>;
+  saveExercise(exercise: Exercise): Promise<Exercise>;
+}
+
+export type StorageBackend = 'supabase' | 'memory';
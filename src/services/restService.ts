@@ -0,0 +1,38 @@
+import { DEFAULT_REST_SECONDS, type RestSettings } from '../types/rest';
+import type { WorkoutTemplate } from '../types/template';
+import { getUserItem, setUserItem } from './userStorage';
+
+const REST_SETTINGS_KEY = 'kori.restSettings';
+
+// Kept on the device like the other per-exercise settings
+export async function getRestSettings(): Promise<RestSettings> {
+  const raw = await getUserItem(REST_SETTINGS_KEY);
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw) as RestSettings;
+  } catch (err) {
+    console.warn('Corrupt rest settings, resetting:', err);
+    return {};
+  }
+}
+
+// A rest saved for the exercise wins, then the workout's plan, then the default
+export function getExerciseRest(
+  settings: RestSettings,
+  exerciseName: string,
+  plan: WorkoutTemplate | null
+): number {
+  return (
+    settings[exerciseName] ??
+    plan?.exercises.find((exercise) => exercise.exerciseName === exerciseName)?.restSeconds ??
+    DEFAULT_REST_SECONDS
+  );
+}
+
+export async function saveExerciseRest(exerciseName: string, seconds: number): Promise<RestSettings> {
+  const current = await getRestSettings();
+  const next = { ...current, [exerciseName]: seconds };
+  await setUserItem(REST_SETTINGS_KEY, JSON.stringify(next));
+  return next;
+}
@@ -1,3 +1,7 @@
+import type { LoadType, SetType } from '../types/workout';
+import { isDurationInRange, isValidRir, isValidRpe, MAX_DURATION_SECONDS, SET_TYPES } from '../utils/setMetadata';
+import { isAddedLoadInRange, isWeightInRange, spokenUnit, weightRangeLabel, type WeightUnit } from '../utils/units';
+
 const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
 
 const SET_EXTRACTION_SCHEMA = {
@@ -7,7 +11,13 @@ const SET_EXTRACTION_SCHEMA = {
     ok: { type: 'boolean' },
     exerciseName: { type: ['string', 'null'] },
     weight: { type: ['number', 'null'] },
+    unit: { type: ['string', 'null'], enum: ['lb', 'kg', null] },
+    loadType: { type: 'string', enum: ['weighted', 'bodyweight'] },
     reps: { type: ['integer', 'null'] },
+    durationSeconds: { type: ['integer', 'null'] },
+    setType: { type: 'string', enum: SET_TYPES },
+    rpe: { type: ['number', 'null'] },
+    rir: { type: ['integer', 'null'] },
     reason: { type: ['string', 'null'] },
     usedLastSet: { type: 'boolean' },
     inferredFields: {
@@ -15,18 +25,20 @@ const SET_EXTRACTION_SCHEMA = {
       items: { type: 'string' },
     },
   },
-  required: ['ok', 'exerciseName', 'weight', 'reps', 'reason', 'usedLastSet', 'inferredFields'],
+  required: ['ok', 'exerciseName', 'weight', 'unit', 'loadType', 'reps', 'durationSeconds', 'setType', 'rpe', 'rir', 'reason', 'usedLastSet', 'inferredFields'],
 } as const;
 
 type SetExtractionResult =
-  | { ok: true; exerciseName: string; weight: number; reps: number; reason: null; usedLastSet: boolean; inferredFields: string[] }
-  | { ok: false; exerciseName: null; weight: null; reps: null; reason: string; usedLastSet: boolean; inferredFields: string[] };
+  | { ok: true; exerciseName: string; weight: number | null; unit: WeightUnit | null; loadType: LoadType; reps: number | null; durationSeconds: number | null; setType: SetType; rpe: number | null; rir: number | null; reason: null; usedLastSet: boolean; inferredFields: string[] }
+  | { ok: false; exerciseName: null; weight: null; unit: null; loadType: LoadType; reps: null; durationSeconds: null; setType: SetType; rpe: null; rir: null; reason: string; usedLastSet: boolean; inferredFields: string[] };
 
+// lastSet weights are in the user's preferred unit
 export async function extractSetFromTranscript(
   transcript: string,
-  lastSet?: { exerciseName: string; weight: number; reps: number } | null
+  lastSet?: { exerciseName: string; weight: number; reps: number | null } | null,
+  preferredUnit: WeightUnit = 'lb'
 ): Promise<
-  | { ok: true; exerciseName: string; weight: number; reps: number }
+  | { ok: true; exerciseName: string; weight: number; unit: WeightUnit; loadType: LoadType; reps: number | null; durationSeconds: number | null; setType: SetType; rpe: number | null; rir: number | null }
   | { ok: false; reason: string }
 > {
   const apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
@@ -36,16 +48,24 @@ export async function extractSetFromTranscript(
     );
   }
 
-  const systemPrompt = `You are a strict workout logging assistant. Extract exercise, weight (as NUMBER), and reps (as NUMBER) from user speech.
+  const systemPrompt = `You are a strict workout logging assistant. Extract exercise, weight (as NUMBER), and reps (as NUMBER) or a duration from user speech.
 
 CRITICAL: Your output MUST contain NUMERIC values for weight and reps, NEVER text like "same weight" or "same reps".
 
 RULES:
 1. Exercise name MUST be a real gym exercise (e.g., "Leg Press", "Squat", "Bench Press")
-2. Weight MUST be a NUMERIC value between 5-1000 (pounds). Default unit is pounds.
-3. Reps MUST be a NUMERIC value between 1-50
+2. Weight MUST be a NUMERIC value between ${weightRangeLabel(preferredUnit)}. Default unit is ${spokenUnit(preferredUnit)}.
+   Set unit="kg" if the user says kg, kilos or kilograms, unit="lb" if they say lbs or pounds, otherwise unit=null.
+   Never convert the weight; return the number as spoken.
+3. Reps MUST be a NUMERIC value between 1-50 (null only for timed sets)
 4. Convert worded numbers to digits: "ninety five" → 95, "ten" → 10, "eighty" → 80
 5. Never guess; if uncertain return ok=false
+   Bodyweight exercises (pull-ups, dips, push-ups, planks): loadType="bodyweight" and weight is the ADDED load,
+   0 for plain bodyweight, negative when assisted ("assisted dips minus 40" → weight:-40). Otherwise loadType="weighted".
+   Timed sets ("plank 60 seconds", "1 minute"): durationSeconds between 1-${MAX_DURATION_SECONDS} and reps=null.
+6. setType: "warmup" for warm-up sets, "drop" for drop sets, "failure" for sets taken to failure, otherwise "working"
+7. rpe: number 1-10 if the user says "RPE 8" or "at an 8", otherwise null
+8. rir: integer 0-10 if the user says "RIR 2" or "2 in reserve", otherwise null
 
 CONTEXTUAL PHRASES - When user says "same weight" or "same reps":
 
@@ -69,27 +89,45 @@ STANDARD EXTRACTION (no "same weight" or "same reps"):
 - Extract all three: exercise name, weight (number), reps (number)
 - Set usedLastSet=false, inferredFields=[]
 
+lastSet weights are in ${spokenUnit(preferredUnit)}. When weight comes from lastSet, return unit=null.
+
 EXAMPLES with lastSet={exerciseName:"Leg Press", weight:180, reps:10}:
 
 Input: "same weight for 12"
-Output: ok:true, exerciseName:"Leg Press", weight:180, reps:12, usedLastSet:true, inferredFields:["weight from lastSet","exerciseName from lastSet"]
+Output: ok:true, exerciseName:"Leg Press", weight:180, unit:null, reps:12, usedLastSet:true, inferredFields:["weight from lastSet","exerciseName from lastSet"]
 Explanation: Used lastSet.weight (180) and lastSet.exerciseName, extracted reps (12) from transcript
 
 Input: "same weight twelve reps"
-Output: ok:true, exerciseName:"Leg Press", weight:180, reps:12, usedLastSet:true, inferredFields:["weight from lastSet","exerciseName from lastSet"]
+Output: ok:true, exerciseName:"Leg Press", weight:180, unit:null, reps:12, usedLastSet:true, inferredFields:["weight from lastSet","exerciseName from lastSet"]
 
 Input: "same reps at 190"
-Output: ok:true, exerciseName:"Leg Press", weight:190, reps:10, usedLastSet:true, inferredFields:["reps from lastSet","exerciseName from lastSet"]
+Output: ok:true, exerciseName:"Leg Press", weight:190, unit:null, reps:10, usedLastSet:true, inferredFields:["reps from lastSet","exerciseName from lastSet"]
 Explanation: Used lastSet.reps (10) and lastSet.exerciseName, extracted weight (190) from transcript
 
 Input: "hamstring curl same weight for 8"
-Output: ok:true, exerciseName:"Hamstring Curl", weight:180, reps:8, usedLastSet:false, inferredFields:["weight from lastSet"]
+Output: ok:true, exerciseName:"Hamstring Curl", weight:180, unit:null, reps:8, usedLastSet:false, inferredFields:["weight from lastSet"]
 Explanation: Used lastSet.weight (180), but user specified different exercise
 
 Input: "leg press 200 for 10"
-Output: ok:true, exerciseName:"Leg Press", weight:200, reps:10, usedLastSet:false, inferredFields:[]
+Output: ok:true, exerciseName:"Leg Press", weight:200, unit:null, reps:10, usedLastSet:false, inferredFields:[]
 Explanation: Standard extraction, no contextual phrases
 
+Input: "squat one hundred kilos for five"
+Output: ok:true, exerciseName:"Squat", weight:100, unit:"kg", reps:5, usedLastSet:false, inferredFields:[]
+Explanation: Spoken unit is recorded, weight is not converted
+
+Input: "assisted dips minus 40 for 10"
+Output: ok:true, exerciseName:"Dip", weight:-40, unit:null, loadType:"bodyweight", reps:10, durationSeconds:null, usedLastSet:false, inferredFields:[]
+
+Input: "plank 60 seconds"
+Output: ok:true, exerciseName:"Plank", weight:0, unit:null, loadType:"bodyweight", reps:null, durationSeconds:60, usedLastSet:false, inferredFields:[]
+
+Input: "warm-up, leg press 90 for 12"
+Output: ok:true, exerciseName:"Leg Press", weight:90, unit:null, reps:12, setType:"warmup", rpe:null, rir:null, usedLastSet:false, inferredFields:[]
+
+Input: "squat 225 for 5 at RPE 8"
+Output: ok:true, exerciseName:"Squat", weight:225, unit:null, reps:5, setType:"working", rpe:8, rir:null, usedLastSet:false, inferredFields:[]
+
 REJECT Examples:
 - "same weight for 10" (lastSet=null) → ok:false, reason:"No previous weight available"
 - "hello there" → ok:false, reason:"No exercise information"
@@ -139,27 +177,51 @@ REJECT Examples:
     const result: SetExtractionResult = JSON.parse(content);
 
     if (result.ok) {
-      if (!result.exerciseName || !result.weight || !result.reps) {
+      const isTimed = result.durationSeconds !== null;
+      const weight = result.weight ?? (result.loadType === 'bodyweight' ? 0 : null);
+      if (!result.exerciseName || weight === null || (!isTimed && result.reps === null)) {
         return {
           ok: false,
           reason: 'Incomplete extraction result',
         };
       }
 
-      if (result.weight < 5 || result.weight > 1000) {
+      const unit = result.unit ?? preferredUnit;
+      if (result.loadType === 'bodyweight' ? !isAddedLoadInRange(weight, unit) : !isWeightInRange(weight, unit)) {
+        return {
+          ok: false,
+          reason: `Weight must be between ${weightRangeLabel(unit)}`,
+        };
+      }
+
+      if (result.durationSeconds !== null && !isDurationInRange(result.durationSeconds)) {
         return {
           ok: false,
-          reason: 'Weight must be between 5 and 1000 pounds',
+          reason: `Duration must be between 1 and ${MAX_DURATION_SECONDS} seconds`,
         };
       }
 
-      if (result.reps < 1 || result.reps > 50) {
+      if (result.reps !== null && (result.reps < 1 || result.reps > 50)) {
         return {
           ok: false,
           reason: 'Reps must be between 1 and 50',
         };
       }
 
+      if (!isValidRpe(result.rpe)) {
+        return {
+          ok: false,
+          reason: 'RPE must be between 1 and 10',
+        };
+      }
+
+      if (!isValidRir(result.rir)) {
+        return {
+          ok: false,
+          reason: 'Reps in reserve must be between 0 and 10',
+        };
+      }
+
       if (result.exerciseName.length < 3 || result.exerciseName.length > 50) {
         return {
           ok: false,
@@ -178,8 +240,14 @@ REJECT Examples:
       return {
         ok: true,
         exerciseName: result.exerciseName,
-        weight: result.weight,
-        reps: result.reps,
+        weight,
+        unit,
+        loadType: result.loadType,
+        reps: isTimed ? null : result.reps,
+        durationSeconds: result.durationSeconds,
+        setType: result.setType,
+        rpe: result.rpe,
+        rir: result.rir,
       };
     } else {
       return {
@@ -0,0 +1,387 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import type { WorkoutSession } from '../types/session';
+import type {
+  CreateWorkoutSetInput,
+  LogWorkoutSetInput,
+  PendingWorkoutSet,
+  UpdateWorkoutSetInput,
+  WorkoutSet,
+} from '../types/workout';
+import { getCurrentUserId } from './authService';
+import { userStorageKey } from './userStorage';
+import { logWorkoutSet, saveWorkoutSession } from './workoutService';
+
+const STORAGE_KEY = 'kori.pendingWorkoutSets';
+const SESSIONS_STORAGE_KEY = 'kori.pendingWorkoutSessions';
+// Items the server rejected; they wait here for the user to retry or discard them
+const FAILED_STORAGE_KEY = 'kori.failedWorkoutSets';
+const FAILED_SESSIONS_STORAGE_KEY = 'kori.failedWorkoutSessions';
+const QUEUE_KEYS = [STORAGE_KEY, SESSIONS_STORAGE_KEY, FAILED_STORAGE_KEY, FAILED_SESSIONS_STORAGE_KEY];
+
+// Postgres error classes for a row the server will never accept as it is:
+// bad data, constraint violations, permissions (row level security), raised exceptions
+const PERMANENT_ERROR_CLASSES = ['22', '23', '42', 'P0'];
+
+type PendingSetsListener = (sets: PendingWorkoutSet[]) => void;
+
+// Queued sets and sessions belong to the account that logged them
+interface Owned {
+  userId: string | null;
+}
+
+export interface FlushResult {
+  synced: WorkoutSet[];
+  remaining: number; // sets and sessions still waiting for a connection
+}
+
+const listeners = new Set<PendingSetsListener>();
+const failedListeners = new Set<PendingSetsListener>();
+
+// Serializes every read-modify-write of the stored queue
+let queueLock: Promise<unknown> = Promise.resolve();
+let flushInFlight: Promise<FlushResult> | null = null;
+let legacyMigration: Promise<void> | null = null;
+
+async function readStored<T>(key: string): Promise<T[]> {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return [];
+
+  try {
+    return JSON.parse(raw) as T[];
+  } catch (err) {
+    console.warn(`Corrupt queue ${key}, resetting:`, err);
+    return [];
+  }
+}
+
+function withQueueLock<R>(task: () => Promise<R>): Promise<R> {
+  const run = queueLock.then(task);
+  queueLock = run.catch(() => undefined);
+  return run;
+}
+
+function updateStored<T>(key: string, mutate: (items: T[]) => T[]): Promise<T[]> {
+  return withQueueLock(async () => {
+    const next = mutate(await readStored<T>(key));
+    await AsyncStorage.setItem(key, JSON.stringify(next));
+    return next;
+  });
+}
+
+// Moves each item to its owner's queue; items without one go to `owner`. Another
+// account's items are held there until it signs in, as uploading them now would
+// file them under whoever is signed in.
+function moveToOwners<T extends Owned>(baseKey: string, fromKey: string, owner: string | null): Promise<void> {
+  return withQueueLock(async () => {
+    const byKey = new Map<string, T[]>();
+    for (const item of await readStored<T>(fromKey)) {
+      const key = userStorageKey(baseKey, item.userId ?? owner);
+      byKey.set(key, [...(byKey.get(key) ?? []), item]);
+    }
+    if ([...byKey.keys()].every((key) => key === fromKey)) return;
+
+    for (const [key, items] of byKey) {
+      const existing = key === fromKey ? [] : await readStored<T>(key);
+      await AsyncStorage.setItem(key, JSON.stringify([...items, ...existing]));
+    }
+    if (!byKey.has(fromKey)) {
+      await AsyncStorage.removeItem(fromKey);
+    }
+  });
+}
+
+// Queues stored before they were kept per account are split up once, by owner
+async function ready(): Promise<void> {
+  legacyMigration ??= Promise.all(
+    QUEUE_KEYS.map((key) => moveToOwners<Owned>(key, key, getCurrentUserId()))
+  )
+    .then(() => undefined)
+    .catch((err) => console.warn('Failed to move queued sets to their accounts:', err));
+  await legacyMigration;
+  await queueLock;
+}
+
+function readQueue(owner: string | null): Promise<PendingWorkoutSet[]> {
+  return readStored<PendingWorkoutSet>(userStorageKey(STORAGE_KEY, owner));
+}
+
+// Listeners only hear about the signed-in account's queue
+async function updateQueue(
+  owner: string | null,
+  mutate: (sets: PendingWorkoutSet[]) => PendingWorkoutSet[]
+): Promise<PendingWorkoutSet[]> {
+  const next = await updateStored(userStorageKey(STORAGE_KEY, owner), mutate);
+  if (owner === getCurrentUserId()) {
+    listeners.forEach((listener) => listener(next));
+  }
+  return next;
+}
+
+async function updateFailed(
+  owner: string | null,
+  mutate: (sets: PendingWorkoutSet[]) => PendingWorkoutSet[]
+): Promise<PendingWorkoutSet[]> {
+  const next = await updateStored(userStorageKey(FAILED_STORAGE_KEY, owner), mutate);
+  if (owner === getCurrentUserId()) {
+    failedListeners.forEach((listener) => listener(next));
+  }
+  return next;
+}
+
+// Network errors and outages are worth retrying; a rejected row is not
+function isPermanentSyncError(err: unknown): boolean {
+  const cause = err instanceof Error ? err.cause : null;
+  const code = cause && typeof cause === 'object' && 'code' in cause ? String(cause.code) : '';
+  return PERMANENT_ERROR_CLASSES.some((errorClass) => code.startsWith(errorClass));
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : 'Sync failed';
+}
+
+export async function getPendingWorkoutSets(): Promise<PendingWorkoutSet[]> {
+  await ready();
+  return readQueue(getCurrentUserId());
+}
+
+export function subscribeToPendingWorkoutSets(listener: PendingSetsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getFailedWorkoutSets(): Promise<PendingWorkoutSet[]> {
+  await ready();
+  return readStored<PendingWorkoutSet>(userStorageKey(FAILED_STORAGE_KEY));
+}
+
+export function subscribeToFailedWorkoutSets(listener: PendingSetsListener): () => void {
+  failedListeners.add(listener);
+  return () => {
+    failedListeners.delete(listener);
+  };
+}
+
+export async function enqueueWorkoutSet(
+  input: Omit<CreateWorkoutSetInput, 'clientId'>
+): Promise<PendingWorkoutSet> {
+  const pending: PendingWorkoutSet = {
+    ...input,
+    clientId: Crypto.randomUUID(),
+    queuedAt: new Date().toISOString(),
+    lastError: null,
+  };
+
+  await ready();
+  await updateQueue(getCurrentUserId(), (sets) => [...sets, pending]);
+  console.log('📥 Set queued locally:', pending.clientId);
+  return pending;
+}
+
+// Sessions are queued as their latest state; sets reference them, so they sync first
+export async function enqueueWorkoutSession(session: WorkoutSession): Promise<void> {
+  await ready();
+  await updateStored<WorkoutSession>(userStorageKey(SESSIONS_STORAGE_KEY), (sessions) => [
+    ...sessions.filter((queued) => queued.id !== session.id),
+    session,
+  ]);
+}
+
+// Session updates not uploaded yet, e.g. a workout finished offline
+export async function getPendingWorkoutSessions(): Promise<WorkoutSession[]> {
+  await ready();
+  return readStored<WorkoutSession>(userStorageKey(SESSIONS_STORAGE_KEY));
+}
+
+// A rejected session is set aside; its sets then fail on their own and can be retried with it
+async function flushSessions(owner: string | null): Promise<boolean> {
+  const sessionsKey = userStorageKey(SESSIONS_STORAGE_KEY, owner);
+  await queueLock;
+  const queued = await readStored<WorkoutSession>(sessionsKey);
+
+  for (const session of queued) {
+    if (getCurrentUserId() !== owner) return false;
+
+    // Only drop it if it was not updated again while uploading
+    const dropUploaded = () =>
+      updateStored<WorkoutSession>(sessionsKey, (sessions) =>
+        sessions.filter((stored) => JSON.stringify(stored) !== JSON.stringify(session))
+      );
+
+    try {
+      await saveWorkoutSession(session);
+      await dropUploaded();
+    } catch (err) {
+      console.warn(`Sync failed for session ${session.id}:`, errorMessage(err));
+      if (!isPermanentSyncError(err)) return false;
+
+      await updateStored<WorkoutSession>(userStorageKey(FAILED_SESSIONS_STORAGE_KEY, owner), (sessions) => [
+        ...sessions.filter((failed) => failed.id !== session.id),
+        session,
+      ]);
+      await dropUploaded();
+    }
+  }
+  return true;
+}
+
+// A flush uploads the copy it read, so a change made meanwhile would be lost (or a
+// deleted set created anyway). Waits out any upload in progress and changes the set
+// only if it is still queued; false means it synced and must be changed on the server.
+async function changeQueuedSet(
+  clientId: string,
+  mutate: (sets: PendingWorkoutSet[]) => PendingWorkoutSet[]
+): Promise<boolean> {
+  await ready();
+  while (flushInFlight) {
+    await flushInFlight.catch(() => undefined);
+  }
+
+  // No await before updateQueue takes the lock, so a flush started later sees the change
+  let found = false;
+  await updateQueue(getCurrentUserId(), (sets) => {
+    found = sets.some((set) => set.clientId === clientId);
+    return found ? mutate(sets) : sets;
+  });
+  return found;
+}
+
+export function updateQueuedWorkoutSet(clientId: string, changes: UpdateWorkoutSetInput): Promise<boolean> {
+  return changeQueuedSet(clientId, (sets) =>
+    sets.map((set) => (set.clientId === clientId ? { ...set, ...changes } : set))
+  );
+}
+
+// Drops a set that has not synced yet and closes the gap in its exercise's numbering
+export function removeQueuedWorkoutSet(clientId: string): Promise<boolean> {
+  return changeQueuedSet(clientId, (sets) => {
+    const removed = sets.find((set) => set.clientId === clientId);
+    if (!removed) return sets;
+
+    return sets
+      .filter((set) => set.clientId !== clientId)
+      .map((set) =>
+        set.date === removed.date &&
+        set.sessionId === removed.sessionId &&
+        set.exerciseName === removed.exerciseName &&
+        set.setNumber > removed.setNumber
+          ? { ...set, setNumber: set.setNumber - 1 }
+          : set
+      );
+  });
+}
+
+// The provisional setNumber is dropped; the backend assigns the real one
+function toLogInput(pending: PendingWorkoutSet): LogWorkoutSetInput {
+  return {
+    date: pending.date,
+    // Sets queued before timestamps were recorded use the time they were queued
+    loggedAt: pending.loggedAt ?? pending.queuedAt,
+    exerciseName: pending.exerciseName,
+    weight: pending.weight,
+    // Sets queued before units were recorded are in pounds
+    weightUnit: pending.weightUnit ?? 'lb',
+    loadType: pending.loadType ?? 'weighted',
+    reps: pending.reps,
+    durationSeconds: pending.durationSeconds ?? null,
+    setType: pending.setType ?? 'working',
+    rpe: pending.rpe ?? null,
+    rir: pending.rir ?? null,
+    restSeconds: pending.restSeconds ?? null,
+    userId: pending.userId,
+    clientId: pending.clientId,
+    sessionId: pending.sessionId,
+    exerciseId: pending.exerciseId,
+  };
+}
+
+async function countRemaining(owner: string | null): Promise<number> {
+  await queueLock;
+  const sessions = await readStored<WorkoutSession>(userStorageKey(SESSIONS_STORAGE_KEY, owner));
+  return (await readQueue(owner)).length + sessions.length;
+}
+
+// Uploads only the signed-in account's queue, and stops if the account changes meanwhile
+async function flushQueue(): Promise<FlushResult> {
+  const synced: WorkoutSet[] = [];
+  const owner = getCurrentUserId();
+
+  await ready();
+  await moveToOwners<WorkoutSession>(SESSIONS_STORAGE_KEY, userStorageKey(SESSIONS_STORAGE_KEY, owner), owner);
+  await moveToOwners<PendingWorkoutSet>(STORAGE_KEY, userStorageKey(STORAGE_KEY, owner), owner);
+
+  if (!(await flushSessions(owner))) {
+    return { synced, remaining: await countRemaining(owner) };
+  }
+
+  await queueLock;
+  const queued = await readQueue(owner);
+
+  // Sync oldest first and stop when offline so sets keep their order;
+  // a set the server rejects is moved aside so it can't hold up the rest
+  for (const pending of queued) {
+    if (getCurrentUserId() !== owner) break;
+
+    try {
+      const saved = await logWorkoutSet(toLogInput(pending));
+      synced.push(saved);
+      await updateQueue(owner, (sets) => sets.filter((set) => set.clientId !== pending.clientId));
+    } catch (err) {
+      const message = errorMessage(err);
+      console.warn(`Sync failed for set ${pending.clientId}:`, message);
+
+      if (!isPermanentSyncError(err)) {
+        await updateQueue(owner, (sets) =>
+          sets.map((set) => (set.clientId === pending.clientId ? { ...set, lastError: message } : set))
+        );
+        break;
+      }
+
+      await updateFailed(owner, (sets) => [...sets, { ...pending, lastError: message }]);
+      await updateQueue(owner, (sets) => sets.filter((set) => set.clientId !== pending.clientId));
+    }
+  }
+
+  return { synced, remaining: await countRemaining(owner) };
+}
+
+// Queues a rejected set again, along with its session if that was rejected too
+export async function retryFailedWorkoutSet(clientId: string): Promise<void> {
+  const owner = getCurrentUserId();
+  const failed = (await getFailedWorkoutSets()).find((set) => set.clientId === clientId);
+  if (!failed) return;
+
+  const failedSessionsKey = userStorageKey(FAILED_SESSIONS_STORAGE_KEY, owner);
+  const failedSessions = await readStored<WorkoutSession>(failedSessionsKey);
+  const session = failedSessions.find((stored) => stored.id === failed.sessionId);
+  if (session) {
+    await updateStored<WorkoutSession>(failedSessionsKey, (sessions) =>
+      sessions.filter((stored) => stored.id !== session.id)
+    );
+    await updateStored<WorkoutSession>(userStorageKey(SESSIONS_STORAGE_KEY, owner), (sessions) => [
+      session,
+      ...sessions.filter((stored) => stored.id !== session.id),
+    ]);
+  }
+
+  await updateQueue(owner, (sets) =>
+    [...sets, { ...failed, lastError: null }].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+  );
+  await updateFailed(owner, (sets) => sets.filter((set) => set.clientId !== clientId));
+}
+
+export async function discardFailedWorkoutSet(clientId: string): Promise<void> {
+  await ready();
+  await updateFailed(getCurrentUserId(), (sets) => sets.filter((set) => set.clientId !== clientId));
+}
+
+export function flushPendingWorkoutSets(): Promise<FlushResult> {
+  if (!flushInFlight) {
+    flushInFlight = flushQueue().finally(() => {
+      flushInFlight = null;
+    });
+  }
+  return flushInFlight;
+}
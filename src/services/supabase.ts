@@ -1,20 +1,41 @@
-import { createClient } from '@supabase/supabase-js';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
 
+let client: SupabaseClient | null = null;
 
-console.log('SUPABASE URL:', process.env.EXPO_PUBLIC_SUPABASE_URL);
-console.log('ANON exists:', !!process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY);
+export function isSupabaseConfigured(): boolean {
+  return !!supabaseUrl && !!supabaseAnonKey;
+}
 
+// Created on first use so the app can run without Supabase (demo mode)
+export function getSupabase(): SupabaseClient {
+  if (client) {
+    return client;
+  }
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error(
-    'Missing Supabase environment variables. ' +
-    'Create a .env file in the project root with:\n' +
-    'EXPO_PUBLIC_SUPABASE_URL=your-project-url\n' +
-    'EXPO_PUBLIC_SUPABASE_ANON_KEY=your-anon-key'
-  );
-}
+  console.log('SUPABASE URL:', supabaseUrl);
+  console.log('ANON exists:', !!supabaseAnonKey);
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error(
+      'Missing Supabase environment variables. ' +
+      'Create a .env file in the project root with:\n' +
+      'EXPO_PUBLIC_SUPABASE_URL=your-project-url\n' +
+      'EXPO_PUBLIC_SUPABASE_ANON_KEY=your-anon-key'
+    );
+  }
+
+  client = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      storage: AsyncStorage,
+      autoRefreshToken: true,
+      persistSession: true,
+      // Magic link redirects are handled by handleAuthRedirect in authService
+      detectSessionInUrl: false,
+    },
+  });
+  return client;
+}
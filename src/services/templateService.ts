@@ -0,0 +1,60 @@
+import * as Crypto from 'expo-crypto';
+import { DEFAULT_WORKOUT_TEMPLATES, type WorkoutTemplate } from '../types/template';
+import { resolveExerciseName } from './exerciseService';
+import { getUserItem, setUserItem } from './userStorage';
+
+const TEMPLATES_KEY = 'kori.workoutTemplates';
+const SELECTED_TEMPLATE_KEY = 'kori.selectedTemplateId';
+
+// Kept on the device like progression settings; the default templates until any are saved
+export async function getWorkoutTemplates(): Promise<WorkoutTemplate[]> {
+  const raw = await getUserItem(TEMPLATES_KEY);
+  if (!raw) return DEFAULT_WORKOUT_TEMPLATES;
+
+  try {
+    return JSON.parse(raw) as WorkoutTemplate[];
+  } catch (err) {
+    console.warn('Corrupt workout templates, resetting:', err);
+    return DEFAULT_WORKOUT_TEMPLATES;
+  }
+}
+
+async function storeWorkoutTemplates(templates: WorkoutTemplate[]): Promise<WorkoutTemplate[]> {
+  await setUserItem(TEMPLATES_KEY, JSON.stringify(templates));
+  return templates;
+}
+
+export function createTemplateId(): string {
+  return Crypto.randomUUID();
+}
+
+// Exercise names are stored as the catalog names so history and recommendations line up
+export async function saveWorkoutTemplate(template: WorkoutTemplate): Promise<WorkoutTemplate[]> {
+  const exercises = await Promise.all(
+    template.exercises.map(async (exercise) => {
+      const match = await resolveExerciseName(exercise.exerciseName);
+      return match.type === 'matched' ? { ...exercise, exerciseName: match.exercise.name } : exercise;
+    })
+  );
+  const saved = { ...template, exercises };
+
+  const templates = await getWorkoutTemplates();
+  const exists = templates.some((existing) => existing.id === template.id);
+  return storeWorkoutTemplates(
+    exists
+      ? templates.map((existing) => (existing.id === template.id ? saved : existing))
+      : [...templates, saved]
+  );
+}
+
+export async function deleteWorkoutTemplate(id: string): Promise<WorkoutTemplate[]> {
+  return storeWorkoutTemplates((await getWorkoutTemplates()).filter((template) => template.id !== id));
+}
+
+export async function getSelectedTemplateId(): Promise<string | null> {
+  return getUserItem(SELECTED_TEMPLATE_KEY);
+}
+
+export async function setSelectedTemplateId(id: string): Promise<void> {
+  await setUserItem(SELECTED_TEMPLATE_KEY, id);
+}
@@ -0,0 +1,31 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCurrentUserId } from './authService';
+
+// Device storage is kept per account ("local" in demo mode), so signing in with
+// another account on the same device never picks up the previous one's data
+export function userStorageKey(key: string, userId: string | null = getCurrentUserId()): string {
+  return `${key}:${userId ?? 'local'}`;
+}
+
+// A value stored before storage was per account goes to the first account that reads it
+async function claimLegacyItem(key: string, scopedKey: string): Promise<string | null> {
+  const legacy = await AsyncStorage.getItem(key);
+  if (legacy === null) return null;
+
+  await AsyncStorage.setItem(scopedKey, legacy);
+  await AsyncStorage.removeItem(key);
+  return legacy;
+}
+
+export async function getUserItem(key: string): Promise<string | null> {
+  const scopedKey = userStorageKey(key);
+  return (await AsyncStorage.getItem(scopedKey)) ?? claimLegacyItem(key, scopedKey);
+}
+
+export async function setUserItem(key: string, value: string): Promise<void> {
+  await AsyncStorage.setItem(userStorageKey(key), value);
+}
+
+export async function removeUserItem(key: string): Promise<void> {
+  await AsyncStorage.removeItem(userStorageKey(key));
+}
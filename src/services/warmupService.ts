@@ -0,0 +1,30 @@
+import { DEFAULT_WARMUP_CONFIG, type WarmupConfig, type WarmupSettings } from '../types/warmup';
+import { getUserItem, setUserItem } from './userStorage';
+
+const WARMUP_SETTINGS_KEY = 'kori.warmupSettings';
+
+// Kept on the device like progression settings
+export async function getWarmupSettings(): Promise<WarmupSettings> {
+  const raw = await getUserItem(WARMUP_SETTINGS_KEY);
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw) as WarmupSettings;
+  } catch (err) {
+    console.warn('Corrupt warm-up settings, resetting:', err);
+    return {};
+  }
+}
+
+export function getExerciseWarmup(settings: WarmupSettings, exerciseName: string): WarmupConfig {
+  return settings[exerciseName] ?? DEFAULT_WARMUP_CONFIG;
+}
+
+export async function saveExerciseWarmup(
+  exerciseName: string,
+  config: WarmupConfig
+): Promise<WarmupSettings> {
+  const next = { ...(await getWarmupSettings()), [exerciseName]: config };
+  await setUserItem(WARMUP_SETTINGS_KEY, JSON.stringify(next));
+  return next;
+}
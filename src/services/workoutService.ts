@@ -1,109 +1,262 @@
-import type { CreateWorkoutSetInput, WorkoutSet, WorkoutSetRow } from '../types';
-import { supabase } from './supabase';
-
-function rowToWorkoutSet(row: WorkoutSetRow): WorkoutSet {
-  return {
-    id: row.id,
-    date: row.date,
-    exerciseName: row.exercise_name,
-    weight: row.weight,
-    reps: row.reps,
-    setNumber: row.set_number,
-    userId: row.user_id,
-  };
-}
-
-function workoutSetToRow(set: CreateWorkoutSetInput): Omit<WorkoutSetRow, 'id'> {
-  return {
-    date: set.date,
-    exercise_name: set.exerciseName,
-    weight: set.weight,
-    reps: set.reps,
-    set_number: set.setNumber,
-    user_id: set.userId,
-  };
-}
-
-export async function logWorkoutSet(input: CreateWorkoutSetInput): Promise<WorkoutSet> {
-  const row = workoutSetToRow(input);
-
-  const { data, error } = await supabase
-    .from('workout_sets')
-    .insert(row)
-    .select()
-    .single();
-
-  if (error) {
-    throw new Error(`Failed to log workout set: ${error.message}`);
+import {
+  DEFAULT_PAGE_SIZE,
+  formatLocalDateYYYYMMDD,
+  type CreateWorkoutSetInput,
+  type EquipmentProfile,
+  type LogWorkoutSetInput,
+  type Page,
+  type PageOptions,
+  type ProgressionSettings,
+  type ProgressionStrategyId,
+  type UpdateWorkoutSetInput,
+  type WorkoutSession,
+  type WorkoutSet,
+} from '../types';
+import { roundToLoadable, type PlateBreakdown } from '../utils/plates';
+import { prescribeCycleSet, type CyclePrescription } from '../utils/programs';
+import { recommendNextSet, type ProgressionStep, type ProgressionTarget } from '../utils/progression';
+import { buildRationale, type RecommendationRationale } from '../utils/recommendationRationale';
+import { isWarmupSet } from '../utils/setMetadata';
+import { getExerciseProgression } from './progressionService';
+import { getWorkoutRepository, type WorkoutSetChangeHandlers } from './repositories';
+
+export async function logWorkoutSet(input: LogWorkoutSetInput): Promise<WorkoutSet> {
+  return getWorkoutRepository().logWorkoutSet(input);
+}
+
+type WorkoutScope = Pick<WorkoutSet, 'date' | 'sessionId'>;
+
+// Sets in the same workout: the session, or the date for sets logged before sessions existed
+async function getSetsInWorkout(scope: WorkoutScope): Promise<WorkoutSet[]> {
+  const repository = getWorkoutRepository();
+  return scope.sessionId
+    ? repository.getWorkoutSetsBySession(scope.sessionId)
+    : repository.getWorkoutSetsByDate(scope.date);
+}
+
+// Keeps set_number contiguous (1..n) for one exercise within one workout
+export async function renumberExerciseSets(scope: WorkoutScope, exerciseName: string): Promise<void> {
+  const repository = getWorkoutRepository();
+  const sets = (await getSetsInWorkout(scope))
+    .filter((set) => set.exerciseName === exerciseName)
+    .sort((a, b) => a.setNumber - b.setNumber || a.id - b.id);
+
+  for (const [index, set] of sets.entries()) {
+    if (set.setNumber !== index + 1) {
+      await repository.updateWorkoutSet(set.id, { setNumber: index + 1 });
+    }
   }
+}
+
+export async function updateWorkoutSet(
+  set: WorkoutSet,
+  changes: UpdateWorkoutSetInput
+): Promise<WorkoutSet> {
+  const repository = getWorkoutRepository();
+  const movesExercise = changes.exerciseName !== undefined && changes.exerciseName !== set.exerciseName;
 
-  if (!data) {
-    throw new Error('Failed to log workout set: No data returned');
+  if (!movesExercise) {
+    return repository.updateWorkoutSet(set.id, changes);
   }
 
-  return rowToWorkoutSet(data);
+  // Moving a set to another exercise appends it there and closes the gap it leaves behind
+  const targetSets = (await getSetsInWorkout(set)).filter(
+    (existing) => existing.exerciseName === changes.exerciseName
+  );
+  const updated = await repository.updateWorkoutSet(set.id, {
+    ...changes,
+    setNumber: targetSets.length + 1,
+  });
+  await renumberExerciseSets(set, set.exerciseName);
+  return updated;
+}
+
+// The saved row of a set that was queued on the device, once it has synced
+export async function getSyncedWorkoutSet(
+  queued: Pick<WorkoutSet, 'clientId' | 'date' | 'sessionId'>
+): Promise<WorkoutSet | null> {
+  return (await getSetsInWorkout(queued)).find((set) => set.clientId === queued.clientId) ?? null;
+}
+
+export async function deleteWorkoutSet(set: WorkoutSet): Promise<void> {
+  await getWorkoutRepository().deleteWorkoutSet(set.id);
+  await renumberExerciseSets(set, set.exerciseName);
 }
 
 export async function getWorkoutSetsByDate(date: string): Promise<WorkoutSet[]> {
-  const { data, error } = await supabase
-    .from('workout_sets')
-    .select('*')
-    .eq('date', date)
-    .order('exercise_name', { ascending: true })
-    .order('set_number', { ascending: true });
-
-  if (error) {
-    throw new Error(`Failed to get workout sets: ${error.message}`);
+  return getWorkoutRepository().getWorkoutSetsByDate(date);
+}
+
+export async function getMostRecentWorkoutDate(): Promise<string | null> {
+  return getWorkoutRepository().getMostRecentWorkoutDate();
+}
+
+// Date of the last workout that started before `startedAt`: the previous session's
+// own local date, or for sets logged before sessions existed, the last earlier day
+export async function getMostRecentWorkoutDateBefore(startedAt: string): Promise<string | null> {
+  const repository = getWorkoutRepository();
+  const previousSession = await repository.getMostRecentCompletedSessionBefore(startedAt);
+  if (previousSession) {
+    return previousSession.localDate;
   }
+  return repository.getMostRecentWorkoutDateBefore(formatLocalDateYYYYMMDD(new Date(startedAt)));
+}
 
-  return (data || []).map(rowToWorkoutSet);
+export async function getWorkoutSetsBySession(sessionId: string): Promise<WorkoutSet[]> {
+  return getWorkoutRepository().getWorkoutSetsBySession(sessionId);
 }
 
-export async function getMostRecentWorkoutDate(): Promise<string | null> {
-  const { data, error } = await supabase
-    .from('workout_sets')
-    .select('date')
-    .order('date', { ascending: false })
-    .limit(1)
-    .single();
-
-  if (error) {
-    if (error.code === 'PGRST116') {
-      return null;
+export function subscribeToSessionSets(
+  sessionId: string,
+  handlers: WorkoutSetChangeHandlers
+): () => void {
+  return getWorkoutRepository().subscribeToSessionSets(sessionId, handlers);
+}
+
+export async function getWorkoutSetsInRange(
+  from: string,
+  to: string,
+  { limit = DEFAULT_PAGE_SIZE, offset = 0 }: PageOptions = {}
+): Promise<Page<WorkoutSet>> {
+  return getWorkoutRepository().getWorkoutSetsInRange(from, to, { limit, offset });
+}
+
+export async function getExerciseHistory(
+  exerciseName: string,
+  limit = DEFAULT_PAGE_SIZE,
+  offset = 0
+): Promise<Page<WorkoutSet>> {
+  return getWorkoutRepository().getExerciseHistory(exerciseName, { limit, offset });
+}
+
+export interface ExerciseSession {
+  sessionId: string | null; // null for sets logged before sessions existed
+  date: string;
+  sets: WorkoutSet[];
+}
+
+// Newest first, paging back until a set matches; null when none does
+async function findInExerciseHistory(
+  exerciseName: string,
+  matches: (set: WorkoutSet) => boolean
+): Promise<WorkoutSet | null> {
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const page: Page<WorkoutSet> = await getExerciseHistory(exerciseName, DEFAULT_PAGE_SIZE, offset);
+    const found = page.items.find(matches);
+    if (found) {
+      return found;
     }
-    throw new Error(`Failed to get most recent workout date: ${error.message}`);
+    offset = page.nextOffset;
   }
 
-  return data?.date || null;
+  return null;
 }
 
-export async function getMostRecentWorkoutDateBefore(date: string): Promise<string | null> {
-  const { data, error } = await supabase
-    .from('workout_sets')
-    .select('date')
-    .lt('date', date)
-    .order('date', { ascending: false })
-    .limit(1)
-    .single();
+// The most recent workout with a working set of this exercise, with only that exercise's sets.
+// Workouts with nothing but warm-ups are skipped. Pass the current session to look past it.
+export async function getLastSessionForExercise(
+  exerciseName: string,
+  excludeSessionId: string | null = null
+): Promise<ExerciseSession | null> {
+  const latest = await findInExerciseHistory(
+    exerciseName,
+    (set) => !isWarmupSet(set) && (!excludeSessionId || set.sessionId !== excludeSessionId)
+  );
+  if (!latest) {
+    return null;
+  }
 
-  if (error) {
-    if (error.code === 'PGRST116') {
-      return null;
-    }
-    throw new Error(`Failed to get most recent workout date before ${date}: ${error.message}`);
+  const sets = (await getSetsInWorkout(latest))
+    .filter((set) => set.exerciseName === exerciseName)
+    .sort((a, b) => a.setNumber - b.setNumber);
+
+  return { sessionId: latest.sessionId, date: latest.date, sets };
+}
+
+export async function saveWorkoutSession(session: WorkoutSession): Promise<WorkoutSession> {
+  return getWorkoutRepository().saveWorkoutSession(session);
+}
+
+export async function getRecentWorkoutSessions(limit = 20): Promise<WorkoutSession[]> {
+  return getWorkoutRepository().getRecentWorkoutSessions(limit);
+}
+
+export async function getMostRecentCompletedSessionBefore(
+  startedAt: string
+): Promise<WorkoutSession | null> {
+  return getWorkoutRepository().getMostRecentCompletedSessionBefore(startedAt);
+}
+
+export async function getCompletedSessionsForTemplates(
+  templateIds: string[],
+  since: string
+): Promise<WorkoutSession[]> {
+  return getWorkoutRepository().getCompletedSessionsForTemplates(templateIds, since);
+}
+
+export async function importWorkoutHistory(
+  sessions: WorkoutSession[],
+  sets: CreateWorkoutSetInput[]
+): Promise<number> {
+  return getWorkoutRepository().importWorkoutHistory(sessions, sets);
+}
+
+export type Adaptation = ProgressionTarget & {
+  exerciseName: string;
+  strategy: ProgressionStrategyId;
+  rationale: RecommendationRationale;
+  plates: PlateBreakdown | null; // for plate-loaded exercises
+};
+
+export interface AdaptationOptions {
+  progression?: ProgressionSettings;
+  equipment?: Record<string, EquipmentProfile>; // exercises missing here are not rounded
+  sourceSets?: Record<string, WorkoutSet[]>; // the rest of that workout, for the explanation
+  cycle?: Record<string, CyclePrescription>; // main lifts in a program's percentage week
+}
+
+// Rounds in the direction the strategy moved, so a small increment is never rounded away
+function toLoadable(
+  step: ProgressionStep,
+  lastSet: WorkoutSet,
+  profile: EquipmentProfile | undefined
+): { step: ProgressionStep; plates: PlateBreakdown | null } {
+  if (!profile || step.loadType !== 'weighted') {
+    return { step, plates: null };
   }
 
-  return data?.date || null;
+  const direction = step.weight > lastSet.weight ? 'up' : step.weight < lastSet.weight ? 'down' : 'nearest';
+  const { weightLb, plates } = roundToLoadable(step.weight, profile, direction);
+  return { step: { ...step, weight: weightLb }, plates };
 }
 
+// Each exercise progresses with its own strategy (double progression by default),
+// unless a program week sets its load, then is rounded to what its equipment can load
 export function buildAdaptationsFromLastSets(
-  lastSetsByExercise: Record<string, WorkoutSet>
-): { exerciseName: string; weight: number; reps: number }[] {
-  const adaptations = Object.entries(lastSetsByExercise).map(([exerciseName, lastSet]) => ({
-    exerciseName,
-    weight: lastSet.weight,
-    reps: Math.min(lastSet.reps + 2, 12),
-  }));
+  lastSetsByExercise: Record<string, WorkoutSet>,
+  { progression = {}, equipment = {}, sourceSets = {}, cycle = {} }: AdaptationOptions = {}
+): Adaptation[] {
+  // Warm-ups say nothing about working capacity
+  const adaptations = Object.entries(lastSetsByExercise)
+    .filter(([, lastSet]) => !isWarmupSet(lastSet))
+    .map(([exerciseName, lastSet]) => {
+      const config = getExerciseProgression(progression, exerciseName);
+      const prescription = lastSet.loadType === 'weighted' ? cycle[exerciseName] ?? null : null;
+      const next = prescription ? prescribeCycleSet(lastSet, prescription) : recommendNextSet(lastSet, config);
+      const { step, plates } = toLoadable(next, lastSet, equipment[exerciseName]);
+      return {
+        exerciseName,
+        strategy: config.strategy,
+        weight: step.weight,
+        loadType: step.loadType,
+        reps: step.reps,
+        durationSeconds: step.durationSeconds,
+        rationale: buildRationale(lastSet, sourceSets[exerciseName] ?? [lastSet], step, config, prescription),
+        plates,
+      };
+    });
 
   return adaptations.sort((a, b) => a.exerciseName.localeCompare(b.exerciseName));
 }
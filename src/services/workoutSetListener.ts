@@ -1,18 +1,35 @@
-import type { ParsedWorkoutSet } from '../utils/workoutParsing';
-import { parseWorkoutSet } from '../utils/workoutParsing';
+import type { ParsedWorkoutSet, VoiceCommand } from '../utils/workoutParsing';
+import { parseVoiceCommand, parseWorkoutSet } from '../utils/workoutParsing';
 import { startRecording, stopRecording } from './audioRecorder';
 import { extractSetFromTranscript } from './setExtractor';
 import { transcribeAudioFile } from './whisper';
 import type { WorkoutSet } from '../types/workout';
+import { speakSetSummary } from '../utils/setFormatting';
+import { isDurationInRange, isValidRir, isValidRpe } from '../utils/setMetadata';
+import { fromPounds, isAddedLoadInRange, isWeightInRange, toPounds, type WeightUnit } from '../utils/units';
 
 export type ListenResult = 
   | { type: 'success'; parsed: ParsedWorkoutSet }
+  | { type: 'command'; command: VoiceCommand }
   | { type: 'first_failed' }
   | { type: 'timeout' }
   | { type: 'error' };
 
+function isParsedSetInRange(parsed: ParsedWorkoutSet, weightUnit: WeightUnit): boolean {
+  const unit = parsed.unit ?? weightUnit;
+  const loadInRange = parsed.loadType === 'bodyweight'
+    ? isAddedLoadInRange(parsed.weight, unit)
+    : isWeightInRange(parsed.weight, unit);
+  const amountInRange = parsed.durationSeconds !== null
+    ? isDurationInRange(parsed.durationSeconds)
+    : parsed.reps !== null && parsed.reps >= 1 && parsed.reps <= 50;
+
+  return loadInRange && amountInRange && isValidRpe(parsed.rpe) && isValidRir(parsed.rir);
+}
+
 interface ListenForWorkoutSetOptions {
   todaySets: WorkoutSet[] | null;
+  weightUnit?: WeightUnit; // applied when the user doesn't say a unit
   maxAttempts?: number;
   chunkDuration?: number;
   onTranscript?: (transcript: string) => void;
@@ -24,6 +41,7 @@ export async function listenForWorkoutSet(
 ): Promise<ListenResult> {
   const {
     todaySets,
+    weightUnit = 'lb',
     maxAttempts = 6,
     chunkDuration = 5000,
     onTranscript,
@@ -54,13 +72,19 @@ export async function listenForWorkoutSet(
         
         console.log(`Chunk transcript: "${transcript}"`);
         
+        const command = parseVoiceCommand(transcript);
+        if (command) {
+          console.log('🗣️ Voice command detected:', command);
+          return { type: 'command', command };
+        }
+        
         console.log('🔍 Attempting regex parse...');
         let parsed = parseWorkoutSet(transcript);
         console.log('🔍 Regex parse result:', parsed);
         
         // Validate parsed result
-        if (parsed && (parsed.weight < 5 || parsed.weight > 1000 || parsed.reps < 1 || parsed.reps > 50)) {
-          console.log('⚠️ Regex parse invalid (weight or reps out of range), forcing LLM fallback');
+        if (parsed && !isParsedSetInRange(parsed, weightUnit)) {
+          console.log('⚠️ Regex parse invalid (weight, reps or effort out of range), forcing LLM fallback');
           parsed = null;
         }
         
@@ -75,7 +99,7 @@ export async function listenForWorkoutSet(
               );
               lastSet = {
                 exerciseName: last.exerciseName,
-                weight: last.weight,
+                weight: fromPounds(last.weight, weightUnit),
                 reps: last.reps,
               };
               console.log('✅ lastSet extracted:', lastSet);
@@ -85,7 +109,7 @@ export async function listenForWorkoutSet(
             
             console.log('🤖 Calling LLM with transcript:', transcript);
             console.log('🤖 Calling LLM with lastSet:', lastSet);
-            const llmResult = await extractSetFromTranscript(transcript, lastSet);
+            const llmResult = await extractSetFromTranscript(transcript, lastSet, weightUnit);
             console.log('🤖 LLM result:', llmResult);
             
             if (llmResult.ok) {
@@ -93,7 +117,13 @@ export async function listenForWorkoutSet(
               parsed = {
                 exerciseName: llmResult.exerciseName,
                 weight: llmResult.weight,
+                unit: llmResult.unit,
+                loadType: llmResult.loadType,
                 reps: llmResult.reps,
+                durationSeconds: llmResult.durationSeconds,
+                setType: llmResult.setType,
+                rpe: llmResult.rpe,
+                rir: llmResult.rir,
               };
             }
           } catch (llmErr) {
@@ -106,7 +136,9 @@ export async function listenForWorkoutSet(
           
           // Notify caller with validated transcript
           if (onTranscript) {
-            onTranscript(`${parsed.exerciseName}, ${parsed.weight} pounds, ${parsed.reps} reps`);
+            const unit = parsed.unit ?? weightUnit;
+            const amount = speakSetSummary({ ...parsed, weight: toPounds(parsed.weight, unit) }, unit);
+            onTranscript(`${parsed.exerciseName}, ${amount}`);
           }
           if (onParsed) {
             onParsed(parsed);
@@ -0,0 +1,30 @@
+// How weight goes on for an exercise
+export type LoadingMethod = 'plates' | 'stack' | 'dumbbells' | 'none';
+
+// All weights in pounds, like stored set weights
+export interface EquipmentProfile {
+  method: LoadingMethod;
+  baseWeightLb: number; // empty bar or sled (plates)
+  platesLb: number[]; // plate sizes on hand, loaded in pairs (plates)
+  stepLb: number; // jump between stack pins or dumbbells (stack, dumbbells)
+}
+
+// What the gym has; exercises without their own profile are loaded from it
+export interface GymEquipment {
+  barWeightLb: number;
+  platesLb: number[];
+  stackStepLb: number;
+  dumbbellStepLb: number;
+}
+
+export interface EquipmentSettings {
+  gym: GymEquipment;
+  exercises: Record<string, EquipmentProfile>; // keyed by exercise name
+}
+
+export const DEFAULT_GYM_EQUIPMENT: GymEquipment = {
+  barWeightLb: 45,
+  platesLb: [45, 35, 25, 10, 5, 2.5],
+  stackStepLb: 10,
+  dumbbellStepLb: 5,
+};
@@ -0,0 +1,23 @@
+export type Equipment = 'barbell' | 'dumbbell' | 'machine' | 'cable' | 'bodyweight' | 'other';
+
+// Database row type (matches Supabase table schema with snake_case)
+export interface ExerciseRow {
+  id: string;
+  name: string;
+  aliases: string[];
+  equipment: Equipment | null;
+  muscle_groups: string[];
+  user_id: string | null; // null for the built-in catalog
+}
+
+// App type (camelCase for use in React components)
+export interface Exercise {
+  id: string;
+  name: string; // canonical name shown and stored on sets
+  aliases: string[];
+  equipment: Equipment | null;
+  muscleGroups: string[];
+  userId: string | null;
+}
+
+export type CreateExerciseInput = Omit<Exercise, 'id'>;
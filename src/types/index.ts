@@ -1,2 +1,26 @@
-export type { WorkoutSetRow, WorkoutSet, CreateWorkoutSetInput } from './workout';
-export { formatLocalDateYYYYMMDD } from './workout';
+export type {
+  WorkoutSetRow, WorkoutSet, CreateWorkoutSetInput, LogWorkoutSetInput, PendingWorkoutSet,
+  UpdateWorkoutSetInput, LoadType, LoggedWorkoutSet, SetType
+} from './workout';
+export {
+  daysBetweenLocalDates, describeDaysAgo, formatLocalDateYYYYMMDD, isPendingWorkoutSet
+} from './workout';
+export type { CreateExerciseInput, Equipment, Exercise, ExerciseRow } from './exercise';
+export type {
+  EquipmentProfile, EquipmentSettings, GymEquipment, LoadingMethod
+} from './equipment';
+export { DEFAULT_GYM_EQUIPMENT } from './equipment';
+export type { Page, PageOptions } from './pagination';
+export type { ActiveProgram, CycleSet, Program, ProgramWeek } from './program';
+export { DEFAULT_PROGRAMS } from './program';
+export type {
+  ProgressionConfig, ProgressionSettings, ProgressionStrategyId, RepRange
+} from './progression';
+export { DEFAULT_PROGRESSION_CONFIG } from './progression';
+export { DEFAULT_PAGE_SIZE, toPage } from './pagination';
+export type { RestSettings } from './rest';
+export { DEFAULT_REST_SECONDS } from './rest';
+export type { WorkoutSession, WorkoutSessionRow, WorkoutSessionStatus } from './session';
+export type { TemplateExercise, WorkoutTemplate } from './template';
+export { DEFAULT_WORKOUT_TEMPLATES } from './template';
+export { getSessionDurationSeconds } from './session';
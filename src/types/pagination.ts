@@ -0,0 +1,22 @@
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  offset: number;
+  nextOffset: number | null; // null when there are no more rows
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+// Repositories fetch one extra row to know whether another page exists
+export function toPage<T>(rows: T[], limit: number, offset: number): Page<T> {
+  const hasMore = rows.length > limit;
+  return {
+    items: hasMore ? rows.slice(0, limit) : rows,
+    offset,
+    nextOffset: hasMore ? offset + limit : null,
+  };
+}
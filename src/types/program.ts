@@ -0,0 +1,188 @@
+import type { TemplateExercise, WorkoutTemplate } from './template';
+
+// One set of a percentage week, as a percent of the training max
+export interface CycleSet {
+  percent: number;
+  reps: number;
+  amrap: boolean; // as many reps as possible, at least `reps`
+}
+
+export interface ProgramWeek {
+  name: string;
+  sets: CycleSet[]; // lightest first; the last one is the top set
+  deload: boolean;
+}
+
+// Days are done in order and the rotation repeats. A percentage cycle moves on a
+// week each time the rotation is completed and applies only to the main lifts.
+export interface Program {
+  id: string;
+  name: string;
+  days: WorkoutTemplate[];
+  weeks: ProgramWeek[]; // empty for plain splits
+  mainLifts: string[];
+}
+
+// Training maxes (pounds, by main lift) stay the same for a whole cycle
+export interface CycleTrainingMaxes {
+  cycle: number; // 0-based, as counted by programCycle
+  lb: Record<string, number>;
+}
+
+// Sessions before startedAt don't count towards the program
+export interface ActiveProgram {
+  programId: string;
+  startedAt: string; // ISO timestamp
+  trainingMaxes?: CycleTrainingMaxes; // absent until the first percentage week
+}
+
+function exercise(
+  exerciseName: string,
+  targetSets: number,
+  min: number,
+  max: number,
+  restSeconds: number
+): TemplateExercise {
+  return { exerciseName, targetSets, repRange: { min, max }, restSeconds };
+}
+
+const FIVE_THREE_ONE_WEEKS: ProgramWeek[] = [
+  {
+    name: '5s week',
+    sets: [
+      { percent: 65, reps: 5, amrap: false },
+      { percent: 75, reps: 5, amrap: false },
+      { percent: 85, reps: 5, amrap: true },
+    ],
+    deload: false,
+  },
+  {
+    name: '3s week',
+    sets: [
+      { percent: 70, reps: 3, amrap: false },
+      { percent: 80, reps: 3, amrap: false },
+      { percent: 90, reps: 3, amrap: true },
+    ],
+    deload: false,
+  },
+  {
+    name: '5/3/1 week',
+    sets: [
+      { percent: 75, reps: 5, amrap: false },
+      { percent: 85, reps: 3, amrap: false },
+      { percent: 95, reps: 1, amrap: true },
+    ],
+    deload: false,
+  },
+  {
+    name: 'Deload week',
+    sets: [
+      { percent: 40, reps: 5, amrap: false },
+      { percent: 50, reps: 5, amrap: false },
+      { percent: 60, reps: 5, amrap: false },
+    ],
+    deload: true,
+  },
+];
+
+export const DEFAULT_PROGRAMS: Program[] = [
+  {
+    id: 'push-pull-legs',
+    name: 'Push/Pull/Legs',
+    days: [
+      {
+        id: 'ppl-push',
+        name: 'Push',
+        exercises: [
+          exercise('Bench Press', 3, 6, 10, 120),
+          exercise('Overhead Press', 3, 8, 12, 90),
+          exercise('Dip', 3, 8, 12, 90),
+          exercise('Lateral Raise', 3, 12, 15, 60),
+          exercise('Tricep Pushdown', 3, 10, 15, 60),
+        ],
+      },
+      {
+        id: 'ppl-pull',
+        name: 'Pull',
+        exercises: [
+          exercise('Barbell Row', 3, 6, 10, 120),
+          exercise('Lat Pulldown', 3, 8, 12, 90),
+          exercise('Seated Cable Row', 3, 10, 12, 90),
+          exercise('Bicep Curl', 3, 10, 15, 60),
+        ],
+      },
+      {
+        id: 'ppl-legs',
+        name: 'Legs',
+        exercises: [
+          exercise('Squat', 3, 6, 10, 150),
+          exercise('Romanian Deadlift', 3, 8, 12, 120),
+          exercise('Leg Press', 3, 10, 15, 90),
+          exercise('Hamstring Curl', 3, 10, 15, 60),
+          exercise('Calf Raise', 3, 12, 15, 60),
+        ],
+      },
+    ],
+    weeks: [],
+    mainLifts: [],
+  },
+  {
+    id: 'upper-lower',
+    name: 'Upper/Lower',
+    days: [
+      {
+        id: 'ul-upper',
+        name: 'Upper',
+        exercises: [
+          exercise('Bench Press', 3, 6, 10, 120),
+          exercise('Barbell Row', 3, 6, 10, 120),
+          exercise('Overhead Press', 3, 8, 12, 90),
+          exercise('Lat Pulldown', 3, 8, 12, 90),
+          exercise('Bicep Curl', 2, 10, 15, 60),
+          exercise('Tricep Pushdown', 2, 10, 15, 60),
+        ],
+      },
+      {
+        id: 'ul-lower',
+        name: 'Lower',
+        exercises: [
+          exercise('Squat', 3, 6, 10, 150),
+          exercise('Romanian Deadlift', 3, 8, 12, 120),
+          exercise('Leg Press', 3, 10, 15, 90),
+          exercise('Hamstring Curl', 3, 10, 15, 60),
+          exercise('Calf Raise', 3, 12, 15, 60),
+        ],
+      },
+    ],
+    weeks: [],
+    mainLifts: [],
+  },
+  {
+    id: 'five-three-one',
+    name: '5/3/1',
+    days: [
+      {
+        id: '531-press',
+        name: 'Press',
+        exercises: [exercise('Overhead Press', 3, 1, 5, 180), exercise('Lat Pulldown', 5, 8, 12, 90)],
+      },
+      {
+        id: '531-deadlift',
+        name: 'Deadlift',
+        exercises: [exercise('Deadlift', 3, 1, 5, 180), exercise('Hamstring Curl', 5, 8, 12, 90)],
+      },
+      {
+        id: '531-bench',
+        name: 'Bench',
+        exercises: [exercise('Bench Press', 3, 1, 5, 180), exercise('Barbell Row', 5, 8, 12, 90)],
+      },
+      {
+        id: '531-squat',
+        name: 'Squat',
+        exercises: [exercise('Squat', 3, 1, 5, 180), exercise('Leg Press', 5, 8, 12, 90)],
+      },
+    ],
+    weeks: FIVE_THREE_ONE_WEEKS,
+    mainLifts: ['Overhead Press', 'Deadlift', 'Bench Press', 'Squat'],
+  },
+];
@@ -0,0 +1,23 @@
+export type ProgressionStrategyId = 'double' | 'linear' | 'rpe';
+
+export interface RepRange {
+  min: number;
+  max: number;
+}
+
+export interface ProgressionConfig {
+  strategy: ProgressionStrategyId;
+  repRange: RepRange;
+  incrementLb: number; // weight added when progressing, in pounds like stored weights
+  targetRpe: number; // used by the RPE strategy
+}
+
+// Keyed by exercise name; exercises without an entry use the defaults
+export type ProgressionSettings = Record<string, ProgressionConfig>;
+
+export const DEFAULT_PROGRESSION_CONFIG: ProgressionConfig = {
+  strategy: 'double',
+  repRange: { min: 8, max: 12 },
+  incrementLb: 5,
+  targetRpe: 8,
+};
@@ -0,0 +1,4 @@
+// Default rest per exercise in seconds, keyed by exercise name
+export type RestSettings = Record<string, number>;
+
+export const DEFAULT_REST_SECONDS = 90;
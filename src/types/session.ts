@@ -0,0 +1,35 @@
+import type { WorkoutTemplate } from './template';
+
+export type WorkoutSessionStatus = 'active' | 'completed';
+
+// Database row type (matches Supabase table schema with snake_case)
+export interface WorkoutSessionRow {
+  id: string; // uuid generated on the device
+  started_at: string; // ISO timestamp
+  local_date: string; // YYYY-MM-DD on the device when the workout started
+  ended_at: string | null;
+  notes: string | null;
+  status: WorkoutSessionStatus;
+  user_id: string | null;
+  template_id: string | null;
+  plan: WorkoutTemplate | null; // jsonb
+}
+
+// App type (camelCase for use in React components)
+export interface WorkoutSession {
+  id: string;
+  startedAt: string;
+  localDate: string; // fixed at start, so a workout past midnight keeps one date
+  endedAt: string | null;
+  notes: string | null;
+  status: WorkoutSessionStatus;
+  userId: string | null;
+  templateId: string | null;
+  plan: WorkoutTemplate | null; // the template as it was when the workout started
+}
+
+// Duration in whole seconds; open sessions are measured up to now
+export function getSessionDurationSeconds(session: WorkoutSession, now: Date = new Date()): number {
+  const end = session.endedAt ? new Date(session.endedAt) : now;
+  return Math.max(0, Math.floor((end.getTime() - new Date(session.startedAt).getTime()) / 1000));
+}
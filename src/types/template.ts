@@ -0,0 +1,29 @@
+import type { RepRange } from './progression';
+
+export interface TemplateExercise {
+  exerciseName: string;
+  targetSets: number;
+  repRange: RepRange;
+  restSeconds: number;
+}
+
+// A reusable workout: exercises in the order they are done
+export interface WorkoutTemplate {
+  id: string;
+  name: string;
+  exercises: TemplateExercise[];
+}
+
+// Seeded on first run so there is always something to pick
+export const DEFAULT_WORKOUT_TEMPLATES: WorkoutTemplate[] = [
+  {
+    id: 'leg-day',
+    name: 'Leg Day',
+    exercises: ['Leg Press', 'Leg Extension', 'Hamstring Curl', 'Calf Raise'].map((exerciseName) => ({
+      exerciseName,
+      targetSets: 3,
+      repRange: { min: 8, max: 12 },
+      restSeconds: 90,
+    })),
+  },
+];
@@ -0,0 +1,23 @@
+// One step of a warm-up ramp; percent of the working weight, or null for the empty bar
+export interface WarmupStep {
+  percent: number | null;
+  reps: number;
+}
+
+export interface WarmupConfig {
+  enabled: boolean;
+  steps: WarmupStep[];
+}
+
+// Keyed by exercise name; exercises without an entry use the default ramp
+export type WarmupSettings = Record<string, WarmupConfig>;
+
+export const DEFAULT_WARMUP_CONFIG: WarmupConfig = {
+  enabled: true,
+  steps: [
+    { percent: null, reps: 10 },
+    { percent: 50, reps: 5 },
+    { percent: 70, reps: 3 },
+    { percent: 85, reps: 1 },
+  ],
+};
@@ -1,33 +1,114 @@
+import type { WeightUnit } from '../utils/units';
+
+export type SetType = 'warmup' | 'working' | 'drop' | 'failure';
+
+// 'bodyweight' sets store added load in weight: 0 for none, negative when assisted
+export type LoadType = 'weighted' | 'bodyweight';
+
 // Database row type (matches Supabase table schema with snake_case)
 export interface WorkoutSetRow {
   id: number;
-  date: string; // YYYY-MM-DD
+  date: string; // YYYY-MM-DD, the session's local date
+  logged_at: string; // ISO timestamp (UTC)
   exercise_name: string;
-  weight: number;
-  reps: number;
+  weight: number; // always pounds
+  weight_unit: WeightUnit; // unit the set was logged in
+  load_type: LoadType;
+  reps: number | null; // null for timed sets
+  duration_seconds: number | null; // set for timed sets like planks
   set_number: number;
+  set_type: SetType;
+  rpe: number | null; // rate of perceived exertion, 1-10
+  rir: number | null; // reps in reserve
+  rest_seconds: number | null; // rest taken before this set, when timed
   user_id: string | null;
+  client_id: string | null; // idempotency key generated on the device
+  session_id: string | null; // null for sets logged before sessions existed
+  exercise_id: string | null; // null for names not in the exercise catalog
 }
 
 // App type (camelCase for use in React components)
 export interface WorkoutSet {
   id: number;
   date: string;
+  loggedAt: string;
   exerciseName: string;
-  weight: number;
-  reps: number;
+  weight: number; // always pounds, convert with fromPounds for display
+  weightUnit: WeightUnit;
+  loadType: LoadType;
+  reps: number | null;
+  durationSeconds: number | null;
   setNumber: number;
+  setType: SetType;
+  rpe: number | null;
+  rir: number | null;
+  restSeconds: number | null;
   userId: string | null;
+  clientId: string | null;
+  sessionId: string | null;
+  exerciseId: string | null;
 }
 
 // Type for creating new workout sets (without id)
 export type CreateWorkoutSetInput = Omit<WorkoutSet, 'id'>;
 
+// Saving a set: the backend assigns setNumber atomically on insert
+export type LogWorkoutSetInput = Omit<CreateWorkoutSetInput, 'setNumber'>;
+
+// Fields a user can correct on an already logged set
+export type UpdateWorkoutSetInput = Partial<
+  Pick<
+    WorkoutSet,
+    | 'exerciseName'
+    | 'exerciseId'
+    | 'weight'
+    | 'weightUnit'
+    | 'loadType'
+    | 'reps'
+    | 'durationSeconds'
+    | 'setNumber'
+    | 'setType'
+    | 'rpe'
+    | 'rir'
+    | 'restSeconds'
+  >
+>;
+
+// Set saved on the device and waiting to be synced to Supabase.
+// Its setNumber is provisional until the backend assigns the real one.
+export interface PendingWorkoutSet extends CreateWorkoutSetInput {
+  clientId: string;
+  queuedAt: string; // ISO timestamp
+  lastError: string | null; // why the last upload failed; shown for sets the server rejected
+}
+
+// Anything shown in a "Logged Sets" list: synced or still queued
+export type LoggedWorkoutSet = WorkoutSet | PendingWorkoutSet;
+
+export function isPendingWorkoutSet(set: LoggedWorkoutSet): set is PendingWorkoutSet {
+  return 'queuedAt' in set;
+}
+
 // Utility function to format device local date as YYYY-MM-DD
-export function formatLocalDateYYYYMMDD(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
+export function formatLocalDateYYYYMMDD(at: Date = new Date()): string {
+  const year = at.getFullYear();
+  const month = String(at.getMonth() + 1).padStart(2, '0');
+  const day = String(at.getDate()).padStart(2, '0');
   return `${year}-${month}-${day}`;
 }
+
+// Whole calendar days from one YYYY-MM-DD date to another, ignoring time zones and DST
+export function daysBetweenLocalDates(from: string, to: string): number {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000));
+}
+
+// "today" / "yesterday" / "3 days ago"
+export function describeDaysAgo(days: number): string {
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  return `${days} days ago`;
+}
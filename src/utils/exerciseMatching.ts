@@ -0,0 +1,105 @@
+import type { Exercise } from '../types/exercise';
+import { toTitleCase } from './workoutParsing';
+
+export type ExerciseMatch =
+  | { type: 'matched'; exercise: Exercise; matchedBy: 'alias' | 'fuzzy' }
+  | { type: 'unknown'; suggestedName: string };
+
+function singularize(word: string): string {
+  if (/(sses|shes|ches|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && word.length > 3) return word.slice(0, -1);
+  return word;
+}
+
+function exerciseWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, '')
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map(singularize);
+}
+
+// "Leg Presses", "leg press" and "Legpress" all normalize to "legpress"
+export function normalizeExerciseName(name: string): string {
+  return exerciseWords(name).join('');
+}
+
+// Edit distance where swapping two neighbouring letters ("Deadlfit") counts as one typo
+export function levenshtein(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function exerciseKeys(exercise: Exercise): string[] {
+  return [exercise.name, ...exercise.aliases].map(normalizeExerciseName);
+}
+
+// Short words must match exactly, so "Hip" isn't "Dip" and "Hack" isn't "Back";
+// longer ones allow one typo per five letters
+function maxWordDistance(word: string): number {
+  return Math.floor(word.length / 5);
+}
+
+// Typos across names with the same words in the same order; null if any word is too far off
+function wordsDistance(spoken: string[], candidate: string[]): number | null {
+  if (spoken.length !== candidate.length) return null;
+
+  let total = 0;
+  for (let i = 0; i < spoken.length; i++) {
+    const distance = levenshtein(spoken[i], candidate[i]);
+    if (distance > maxWordDistance(spoken[i])) return null;
+    total += distance;
+  }
+  return total;
+}
+
+// Exact match on any normalized name or alias first, then the closest name
+// whose words each match, allowing a typo in longer words. A wrong guess files
+// sets under the wrong exercise, so anything less certain is a new exercise.
+export function resolveExercise(name: string, catalog: Exercise[]): ExerciseMatch {
+  const key = normalizeExerciseName(name);
+  const suggestedName = toTitleCase(name.trim().replace(/\s+/g, ' '));
+
+  if (!key) {
+    return { type: 'unknown', suggestedName };
+  }
+
+  const exact = catalog.find((exercise) => exerciseKeys(exercise).includes(key));
+  if (exact) {
+    return { type: 'matched', exercise: exact, matchedBy: 'alias' };
+  }
+
+  const words = exerciseWords(name);
+  let best: { exercise: Exercise; distance: number } | null = null;
+
+  for (const exercise of catalog) {
+    for (const candidate of [exercise.name, ...exercise.aliases]) {
+      const distance = wordsDistance(words, exerciseWords(candidate));
+      if (distance !== null && (!best || distance < best.distance)) {
+        best = { exercise, distance };
+      }
+    }
+  }
+
+  if (best) {
+    return { type: 'matched', exercise: best.exercise, matchedBy: 'fuzzy' };
+  }
+
+  return { type: 'unknown', suggestedName };
+}
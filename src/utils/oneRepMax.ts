@@ -0,0 +1,23 @@
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+export const ONE_REP_MAX_FORMULA_LABELS: Record<OneRepMaxFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+};
+
+// Both formulas drift badly for high-rep sets, so those get no estimate
+export const MAX_REPS_FOR_ESTIMATE = 12;
+
+// Estimated one-rep max in the same unit as the weight; null when it can't be estimated
+export function estimateOneRepMax(weight: number, reps: number, formula: OneRepMaxFormula): number | null {
+  if (weight <= 0 || reps < 1 || reps > MAX_REPS_FOR_ESTIMATE) return null;
+  if (reps === 1) return weight;
+
+  return formula === 'brzycki'
+    ? weight * (36 / (37 - reps))
+    : weight * (1 + reps / 30);
+}
+
+export function parseOneRepMaxFormula(text: string | null | undefined): OneRepMaxFormula | null {
+  return text === 'epley' || text === 'brzycki' ? text : null;
+}
@@ -0,0 +1,147 @@
+import type { WorkoutSet } from '../types/workout';
+import { estimateOneRepMax, type OneRepMaxFormula } from './oneRepMax';
+import { isWarmupSet } from './setMetadata';
+
+export type PersonalRecordKind = 'e1rm' | 'weight' | 'reps' | 'volume';
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordKind, string> = {
+  e1rm: 'e1RM',
+  weight: 'heaviest',
+  reps: 'most reps',
+  volume: 'volume',
+};
+
+export const SPOKEN_PERSONAL_RECORD_LABELS: Record<PersonalRecordKind, string> = {
+  e1rm: 'estimated one rep max',
+  weight: 'heaviest weight',
+  reps: 'most reps at that weight',
+  volume: 'session volume',
+};
+
+// Best marks for one exercise; weights and volume are in pounds like stored sets
+export interface ExerciseRecords {
+  bestE1rm: number | null;
+  heaviestWeight: number | null;
+  mostRepsByWeight: Record<string, number>;
+  bestSessionVolume: number | null;
+}
+
+export interface PersonalRecord {
+  kind: PersonalRecordKind;
+  value: number;
+  previous: number;
+}
+
+type RecordSet = Pick<WorkoutSet, 'weight' | 'loadType' | 'reps' | 'setType'>;
+
+export const EMPTY_RECORDS: ExerciseRecords = {
+  bestE1rm: null,
+  heaviestWeight: null,
+  mostRepsByWeight: {},
+  bestSessionVolume: null,
+};
+
+// Only weighted working sets with reps say anything about strength
+export function countsTowardRecords(set: RecordSet): set is RecordSet & { reps: number } {
+  return set.loadType === 'weighted' && set.reps !== null && !isWarmupSet(set);
+}
+
+function weightKey(weight: number): string {
+  return weight.toFixed(2);
+}
+
+function maxOf(current: number | null, value: number | null): number | null {
+  if (value === null) return current;
+  return current === null || value > current ? value : current;
+}
+
+function sessionVolume(sets: RecordSet[]): number {
+  return sets.reduce((total, set) => (countsTowardRecords(set) ? total + set.weight * set.reps : total), 0);
+}
+
+function addSet(records: ExerciseRecords, set: RecordSet, formula: OneRepMaxFormula): ExerciseRecords {
+  if (!countsTowardRecords(set)) return records;
+
+  const key = weightKey(set.weight);
+  return {
+    ...records,
+    bestE1rm: maxOf(records.bestE1rm, estimateOneRepMax(set.weight, set.reps, formula)),
+    heaviestWeight: maxOf(records.heaviestWeight, set.weight),
+    mostRepsByWeight: {
+      ...records.mostRepsByWeight,
+      [key]: Math.max(records.mostRepsByWeight[key] ?? 0, set.reps),
+    },
+  };
+}
+
+// Volume is compared per workout: the session, or the date for sets logged before sessions existed
+export function buildExerciseRecords(sets: WorkoutSet[], formula: OneRepMaxFormula): ExerciseRecords {
+  const workouts = new Map<string, WorkoutSet[]>();
+  for (const set of sets) {
+    const key = set.sessionId ?? set.date;
+    workouts.set(key, [...(workouts.get(key) ?? []), set]);
+  }
+
+  let records = sets.reduce((current, set) => addSet(current, set, formula), EMPTY_RECORDS);
+  for (const workoutSets of workouts.values()) {
+    const volume = sessionVolume(workoutSets);
+    if (volume > 0) {
+      records = { ...records, bestSessionVolume: maxOf(records.bestSessionVolume, volume) };
+    }
+  }
+  return records;
+}
+
+// Records the set beats, given earlier workouts and the sets already done this session.
+// Nothing counts as a record the first time an exercise (or weight) is done.
+export function findNewRecords(
+  set: RecordSet,
+  previousRecords: ExerciseRecords,
+  earlierSessionSets: RecordSet[],
+  formula: OneRepMaxFormula
+): PersonalRecord[] {
+  if (!countsTowardRecords(set)) return [];
+
+  const records = earlierSessionSets.reduce((current, earlier) => addSet(current, earlier, formula), previousRecords);
+  const found: PersonalRecord[] = [];
+
+  const e1rm = estimateOneRepMax(set.weight, set.reps, formula);
+  if (e1rm !== null && records.bestE1rm !== null && e1rm > records.bestE1rm) {
+    found.push({ kind: 'e1rm', value: e1rm, previous: records.bestE1rm });
+  }
+
+  if (records.heaviestWeight !== null && set.weight > records.heaviestWeight) {
+    found.push({ kind: 'weight', value: set.weight, previous: records.heaviestWeight });
+  }
+
+  const repsAtWeight = records.mostRepsByWeight[weightKey(set.weight)];
+  if (repsAtWeight !== undefined && set.reps > repsAtWeight) {
+    found.push({ kind: 'reps', value: set.reps, previous: repsAtWeight });
+  }
+
+  // Announced once, on the set that first takes the session past the best
+  const best = previousRecords.bestSessionVolume;
+  const before = sessionVolume(earlierSessionSets);
+  const after = before + set.weight * set.reps;
+  if (best !== null && before <= best && after > best) {
+    found.push({ kind: 'volume', value: after, previous: best });
+  }
+
+  return found;
+}
+
+// "New Leg Press PR! Heaviest weight and estimated one rep max."
+export function speakPersonalRecords(exerciseName: string, records: PersonalRecord[]): string {
+  if (records.length === 0) return '';
+  const labels = records.map((record) => SPOKEN_PERSONAL_RECORD_LABELS[record.kind]);
+  const described = labels.length > 1
+    ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`
+    : labels[0];
+  return `New ${exerciseName} PR! ${described.charAt(0).toUpperCase()}${described.slice(1)}.`;
+}
+
+// " · PR: e1RM, heaviest" for list rows
+export function formatPersonalRecords(records: PersonalRecord[]): string {
+  if (records.length === 0) return '';
+  return ` · PR: ${records.map((record) => PERSONAL_RECORD_LABELS[record.kind]).join(', ')}`;
+}
@@ -0,0 +1,113 @@
+import type { RepRange } from '../types/progression';
+import type { WorkoutTemplate } from '../types/template';
+import type { WorkoutSet } from '../types/workout';
+import type { ProgressionTarget } from './progression';
+import { speakLoad, speakSetSummary } from './setFormatting';
+import { isWarmupSet } from './setMetadata';
+import type { WeightUnit } from './units';
+
+export interface ExerciseProgress {
+  exerciseName: string;
+  targetSets: number;
+  repRange: RepRange;
+  doneSets: number; // working sets logged so far; warm-ups don't count
+  isComplete: boolean;
+}
+
+export interface PlanProgress {
+  exercises: ExerciseProgress[]; // one per plan entry, in plan order
+  currentIndex: number | null; // null once everything is done
+  lastIndex: number | null; // entry the latest working set counted towards; null if it isn't planned
+}
+
+type ProgressSet = Pick<WorkoutSet, 'exerciseName' | 'setType' | 'loggedAt'>;
+
+// An exercise can be planned more than once (e.g. heavy sets, then a back-off block):
+// its sets fill the entries in plan order, and extra sets count towards the last one.
+// The current exercise is the one being worked on (last logged and not finished),
+// otherwise the first unfinished one in plan order.
+export function buildPlanProgress(plan: WorkoutTemplate, sets: ProgressSet[]): PlanProgress {
+  const working = sets
+    .filter((set) => !isWarmupSet(set))
+    .sort((a, b) => a.loggedAt.localeCompare(b.loggedAt));
+  const exercises: ExerciseProgress[] = plan.exercises.map(({ exerciseName, targetSets, repRange }) => ({
+    exerciseName,
+    targetSets,
+    repRange,
+    doneSets: 0,
+    isComplete: targetSets <= 0,
+  }));
+
+  let lastIndex: number | null = null;
+  for (const set of working) {
+    const entries = exercises
+      .map((exercise, index) => ({ exercise, index }))
+      .filter(({ exercise }) => exercise.exerciseName === set.exerciseName);
+    const entry = entries.find(({ exercise }) => !exercise.isComplete) ?? entries[entries.length - 1];
+    if (!entry) {
+      lastIndex = null;
+      continue;
+    }
+
+    entry.exercise.doneSets += 1;
+    entry.exercise.isComplete = entry.exercise.doneSets >= entry.exercise.targetSets;
+    lastIndex = entry.index;
+  }
+
+  const inProgress = lastIndex !== null && !exercises[lastIndex].isComplete ? lastIndex : -1;
+  const firstUnfinished = exercises.findIndex((exercise) => !exercise.isComplete);
+  const currentIndex = inProgress !== -1 ? inProgress : firstUnfinished;
+
+  return { exercises, currentIndex: currentIndex === -1 ? null : currentIndex, lastIndex };
+}
+
+// The first unfinished exercise after the current one, wrapping round to any skipped
+export function getNextExercise(progress: PlanProgress): ExerciseProgress | null {
+  const { exercises, currentIndex } = progress;
+  if (currentIndex === null) return null;
+
+  const ordered = [...exercises.slice(currentIndex + 1), ...exercises.slice(0, currentIndex)];
+  return ordered.find((exercise) => !exercise.isComplete) ?? null;
+}
+
+// "3 sets of 10 at 90 pounds" / "2 more sets of 8 to 12 reps"
+function speakSetsLeft(exercise: ExerciseProgress, target: ProgressionTarget | null, unit: WeightUnit): string {
+  const left = exercise.targetSets - exercise.doneSets;
+  const sets = `${left}${exercise.doneSets > 0 ? ' more' : ''} ${left === 1 ? 'set' : 'sets'}`;
+
+  if (!target) {
+    const { min, max } = exercise.repRange;
+    return `${sets} of ${min === max ? min : `${min} to ${max}`} reps`;
+  }
+  if (target.reps === null) {
+    return `${sets} of ${speakSetSummary(target, unit)}`;
+  }
+  return `${sets} of ${target.reps} at ${speakLoad(target, unit)}`;
+}
+
+// "Next up: Hamstring Curl, 3 sets of 10 at 90 pounds."
+export function speakNextUp(exercise: ExerciseProgress, target: ProgressionTarget | null, unit: WeightUnit): string {
+  return `Next up: ${exercise.exerciseName}, ${speakSetsLeft(exercise, target, unit)}.`;
+}
+
+// Answers "what's next?"
+export function speakPlanStatus(
+  progress: PlanProgress,
+  targetFor: (exerciseName: string) => ProgressionTarget | null,
+  unit: WeightUnit
+): string {
+  if (progress.currentIndex === null) {
+    return "That's everything in today's plan.";
+  }
+
+  const current = progress.exercises[progress.currentIndex];
+  if (current.doneSets === 0) {
+    return speakNextUp(current, targetFor(current.exerciseName), unit);
+  }
+
+  const next = getNextExercise(progress);
+  const after = next
+    ? ` After that, ${next.exerciseName}, ${speakSetsLeft(next, targetFor(next.exerciseName), unit)}.`
+    : ' That finishes the plan.';
+  return `You're on ${current.exerciseName}, ${speakSetsLeft(current, targetFor(current.exerciseName), unit)} to go.${after}`;
+}
@@ -0,0 +1,106 @@
+import type { EquipmentProfile } from '../types/equipment';
+import { fromPounds, unitLabel, type WeightUnit } from './units';
+
+// Plates on each side of the bar or sled, heaviest first
+export interface PlateBreakdown {
+  baseWeightLb: number;
+  perSideLb: number[];
+}
+
+export type RoundingDirection = 'up' | 'down' | 'nearest';
+
+// Keys sums to the hundredth so kg plates stored in pounds still line up
+function sumKey(value: number): number {
+  return Math.round(value * 100);
+}
+
+// Every per-side load up to the limit, each with the fewest plates that make it
+function loadablePerSide(platesLb: number[], limitLb: number): Map<number, number[]> {
+  const plates = [...new Set(platesLb.filter((plate) => plate > 0))].sort((a, b) => b - a);
+  const reachable = new Map<number, number[]>([[0, []]]);
+  let frontier: number[][] = [[]];
+
+  while (frontier.length > 0) {
+    const next: number[][] = [];
+    for (const combo of frontier) {
+      const total = combo.reduce((sum, plate) => sum + plate, 0);
+      for (const plate of plates) {
+        const key = sumKey(total + plate);
+        if (total + plate <= limitLb && !reachable.has(key)) {
+          const nextCombo = [...combo, plate].sort((a, b) => b - a);
+          reachable.set(key, nextCombo);
+          next.push(nextCombo);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return reachable;
+}
+
+function pick(candidates: number[], target: number, direction: RoundingDirection): number {
+  const below = candidates.filter((value) => value <= target);
+  const above = candidates.filter((value) => value >= target);
+  const down = below.length > 0 ? Math.max(...below) : Math.min(...candidates);
+  const up = above.length > 0 ? Math.min(...above) : Math.max(...candidates);
+
+  if (direction === 'up') return up;
+  if (direction === 'down') return down;
+  // Ties go to the lighter load
+  return up - target < target - down ? up : down;
+}
+
+function roundPlateLoad(
+  weightLb: number,
+  profile: EquipmentProfile,
+  direction: RoundingDirection
+): { weightLb: number; plates: PlateBreakdown } {
+  const perSideTarget = Math.max(0, (weightLb - profile.baseWeightLb) / 2);
+  // Room for one more of the biggest plate so rounding up always has a candidate
+  const limit = perSideTarget + Math.max(0, ...profile.platesLb);
+  const reachable = loadablePerSide(profile.platesLb, limit);
+
+  const perSide = pick([...reachable.keys()], sumKey(perSideTarget), direction);
+  return {
+    weightLb: profile.baseWeightLb + (perSide / 100) * 2,
+    plates: { baseWeightLb: profile.baseWeightLb, perSideLb: reachable.get(perSide) ?? [] },
+  };
+}
+
+// Nearest weight this equipment can actually load; plate-loaded lifts also get the plates
+export function roundToLoadable(
+  weightLb: number,
+  profile: EquipmentProfile,
+  direction: RoundingDirection = 'nearest'
+): { weightLb: number; plates: PlateBreakdown | null } {
+  if (profile.method === 'plates') {
+    return roundPlateLoad(weightLb, profile, direction);
+  }
+
+  if (profile.method === 'none' || profile.stepLb <= 0) {
+    return { weightLb, plates: null };
+  }
+
+  const steps = weightLb / profile.stepLb;
+  // Small tolerance for float error; ties go to the lighter load like plates
+  const rounded =
+    direction === 'up'
+      ? Math.ceil(steps - 1e-9)
+      : direction === 'down'
+        ? Math.floor(steps + 1e-9)
+        : Math.ceil(steps - 0.5 - 1e-9);
+  return { weightLb: Math.max(1, rounded) * profile.stepLb, plates: null };
+}
+
+// "45 + 25 / side" / "Empty bar"
+export function formatPlateBreakdown({ perSideLb }: PlateBreakdown, unit: WeightUnit): string {
+  if (perSideLb.length === 0) return 'Empty bar';
+  return `${perSideLb.map((plate) => fromPounds(plate, unit)).join(' + ')} ${unitLabel(unit)} / side`;
+}
+
+// "45 plus 25 on each side" / "just the bar", for TTS
+export function speakPlateBreakdown({ perSideLb }: PlateBreakdown, unit: WeightUnit): string {
+  if (perSideLb.length === 0) return 'just the bar';
+  return `${perSideLb.map((plate) => fromPounds(plate, unit)).join(' plus ')} on each side`;
+}
@@ -0,0 +1,103 @@
+import type { CycleSet, Program, ProgramWeek } from '../types/program';
+import type { WorkoutSession } from '../types/session';
+import type { WorkoutTemplate } from '../types/template';
+import type { WorkoutSet } from '../types/workout';
+import type { ProgressionStep } from './progression';
+
+// Percentages are taken from a training max a little under the estimated 1RM
+export const TRAINING_MAX_PERCENT = 90;
+
+export interface ProgramDay {
+  program: Program;
+  template: WorkoutTemplate;
+  dayIndex: number; // position in the rotation
+  rotation: number; // completed rotations so far
+  week: ProgramWeek | null; // this week's percentages; null for plain splits
+}
+
+// This week's percentages for one main lift
+export interface CyclePrescription {
+  week: ProgramWeek;
+  trainingMaxLb: number;
+}
+
+// Continues after the last day done, so a missed day is done next rather than
+// skipped. The rotation (and the percentage week) moves on after the last day.
+export function scheduleProgramDay(
+  program: Program,
+  completedSessions: Pick<WorkoutSession, 'templateId' | 'startedAt'>[]
+): ProgramDay {
+  let dayIndex = 0;
+  let rotation = 0;
+
+  const ordered = [...completedSessions].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  for (const session of ordered) {
+    const done = program.days.findIndex((day) => day.id === session.templateId);
+    if (done === -1) continue;
+
+    dayIndex = done + 1;
+    if (dayIndex >= program.days.length) {
+      dayIndex = 0;
+      rotation += 1;
+    }
+  }
+
+  return {
+    program,
+    template: program.days[dayIndex],
+    dayIndex,
+    rotation,
+    week: program.weeks.length > 0 ? program.weeks[rotation % program.weeks.length] : null,
+  };
+}
+
+// Which percentage cycle (0-based) a day falls in; a cycle is one rotation per week
+export function programCycle({ program, rotation }: Pick<ProgramDay, 'program' | 'rotation'>): number {
+  return program.weeks.length > 0 ? Math.floor(rotation / program.weeks.length) : 0;
+}
+
+// "Week 3 · Day 2 of 3" / "Cycle 1 · 3s week · Day 2 of 4"
+export function formatProgramDay(programDay: ProgramDay): string {
+  const { program, dayIndex, rotation, week } = programDay;
+  const day = `Day ${dayIndex + 1} of ${program.days.length}`;
+  if (!week) return `Week ${rotation + 1} · ${day}`;
+
+  return `Cycle ${programCycle(programDay) + 1} · ${week.name} · ${day}`;
+}
+
+function formatCycleSet({ percent, reps, amrap }: CycleSet): string {
+  return `${percent}% × ${reps}${amrap ? '+' : ''}`;
+}
+
+// "65% × 5 · 75% × 5 · 85% × 5+"
+export function formatCycleSets(week: ProgramWeek): string {
+  return week.sets.map(formatCycleSet).join(' · ');
+}
+
+// "70 percent for 3, 80 percent for 3, then 90 percent for 3 or more", for TTS
+export function speakCycleSets(week: ProgramWeek): string {
+  const steps = week.sets.map(
+    ({ percent, reps, amrap }) => `${percent} percent for ${reps}${amrap ? ' or more' : ''}`
+  );
+  if (steps.length > 1) {
+    steps[steps.length - 1] = `then ${steps[steps.length - 1]}`;
+  }
+  return steps.join(', ');
+}
+
+// Whole pounds, so it reads cleanly in the explanation
+export function trainingMaxFromE1rm(e1rmLb: number): number {
+  return Math.round((e1rmLb * TRAINING_MAX_PERCENT) / 100);
+}
+
+// The week's top set for a main lift; the lighter sets lead up to it
+export function prescribeCycleSet(lastSet: WorkoutSet, { week, trainingMaxLb }: CyclePrescription): ProgressionStep {
+  const top = week.sets[week.sets.length - 1];
+  return {
+    weight: (trainingMaxLb * top.percent) / 100,
+    loadType: lastSet.loadType,
+    reps: top.reps,
+    durationSeconds: null,
+    rule: week.deload ? 'cycle-deload' : 'cycle-week',
+  };
+}
@@ -0,0 +1,140 @@
+import type { ProgressionConfig, ProgressionStrategyId } from '../types/progression';
+import type { WorkoutSet } from '../types/workout';
+import { MIN_WEIGHT_LB } from './units';
+
+export type ProgressionTarget = Pick<WorkoutSet, 'weight' | 'loadType' | 'reps' | 'durationSeconds'>;
+
+// Which rule produced a target, so the recommendation can explain itself
+export type ProgressionRule =
+  | 'add-reps' // below the top of the rep range
+  | 'add-weight' // top of the range (double) or target reps hit (linear)
+  | 'repeat-weight' // target reps missed
+  | 'effort-below-target' // easier than the target RPE
+  | 'effort-above-target' // harder than the target RPE
+  | 'effort-on-target'
+  | 'repeat-duration' // timed sets
+  | 'cycle-week' // a program's percentage week (main lifts)
+  | 'cycle-deload';
+
+export type ProgressionStep = ProgressionTarget & { rule: ProgressionRule };
+
+// A strategy only sees the set the recommendation is based on, so it can be
+// swapped per exercise without touching how that set is chosen
+export interface ProgressionStrategy {
+  id: ProgressionStrategyId;
+  label: string;
+  next(lastSet: WorkoutSet, config: ProgressionConfig): ProgressionStep;
+}
+
+// Reps added per session while working up the range
+const DOUBLE_PROGRESSION_REP_STEP = 2;
+// Roughly how much the load changes per point of RPE off target
+const LOAD_CHANGE_PER_RPE = 0.03;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Weighted sets never drop below the smallest loggable weight; added load may go negative (assisted)
+function withLoad(lastSet: WorkoutSet, weight: number, reps: number, rule: ProgressionRule): ProgressionStep {
+  return {
+    weight: lastSet.loadType === 'weighted' ? Math.max(weight, MIN_WEIGHT_LB) : weight,
+    loadType: lastSet.loadType,
+    reps,
+    durationSeconds: null,
+    rule,
+  };
+}
+
+// RIR counts as 10 - RIR; null when no effort was recorded
+export function effectiveRpe({ rpe, rir }: Pick<WorkoutSet, 'rpe' | 'rir'>): number | null {
+  return rpe ?? (rir !== null ? 10 - rir : null);
+}
+
+function effortRule(rpeGap: number): ProgressionRule {
+  if (rpeGap > 0) return 'effort-below-target';
+  if (rpeGap < 0) return 'effort-above-target';
+  return 'effort-on-target';
+}
+
+// Work up the rep range at the same weight, then add weight and start again at the bottom
+const doubleProgression: ProgressionStrategy = {
+  id: 'double',
+  label: 'Double progression',
+  next(lastSet, { repRange, incrementLb }) {
+    const reps = lastSet.reps ?? repRange.min;
+    if (reps >= repRange.max) {
+      return withLoad(lastSet, lastSet.weight + incrementLb, repRange.min, 'add-weight');
+    }
+    return withLoad(
+      lastSet,
+      lastSet.weight,
+      clamp(reps + DOUBLE_PROGRESSION_REP_STEP, repRange.min, repRange.max),
+      'add-reps'
+    );
+  },
+};
+
+// Add weight every session the target reps were hit, otherwise repeat the weight
+const linearProgression: ProgressionStrategy = {
+  id: 'linear',
+  label: 'Linear progression',
+  next(lastSet, { repRange, incrementLb }) {
+    const hitTarget = (lastSet.reps ?? 0) >= repRange.min;
+    return hitTarget
+      ? withLoad(lastSet, lastSet.weight + incrementLb, repRange.min, 'add-weight')
+      : withLoad(lastSet, lastSet.weight, repRange.min, 'repeat-weight');
+  },
+};
+
+// Adjusts the load so the same reps land at the target RPE;
+// with no effort recorded it falls back to double progression.
+const rpeProgression: ProgressionStrategy = {
+  id: 'rpe',
+  label: 'RPE autoregulation',
+  next(lastSet, config) {
+    const lastRpe = effectiveRpe(lastSet);
+    if (lastRpe === null || lastSet.reps === null) {
+      return doubleProgression.next(lastSet, config);
+    }
+
+    const rpeGap = config.targetRpe - lastRpe;
+
+    // Bodyweight sets have little or no load to scale, so adjust reps instead (about a rep per point)
+    if (lastSet.loadType === 'bodyweight') {
+      return withLoad(lastSet, lastSet.weight, Math.max(1, lastSet.reps + Math.round(rpeGap)), effortRule(rpeGap));
+    }
+
+    // Light loads still move at least one increment when the effort is off target
+    const scaledSteps = Math.round((lastSet.weight * LOAD_CHANGE_PER_RPE * rpeGap) / config.incrementLb);
+    const steps = scaledSteps === 0 ? Math.sign(rpeGap) : scaledSteps;
+    const reps = clamp(lastSet.reps, config.repRange.min, config.repRange.max);
+    return withLoad(lastSet, lastSet.weight + steps * config.incrementLb, reps, effortRule(rpeGap));
+  },
+};
+
+export const PROGRESSION_STRATEGIES: Record<ProgressionStrategyId, ProgressionStrategy> = {
+  double: doubleProgression,
+  linear: linearProgression,
+  rpe: rpeProgression,
+};
+
+export const PROGRESSION_STRATEGY_IDS = Object.keys(PROGRESSION_STRATEGIES) as ProgressionStrategyId[];
+
+export function getProgressionStrategy(id: ProgressionStrategyId): ProgressionStrategy {
+  return PROGRESSION_STRATEGIES[id] ?? doubleProgression;
+}
+
+// Timed sets repeat the same duration whatever the strategy
+export function recommendNextSet(lastSet: WorkoutSet, config: ProgressionConfig): ProgressionStep {
+  if (lastSet.reps === null) {
+    return {
+      weight: lastSet.weight,
+      loadType: lastSet.loadType,
+      reps: null,
+      durationSeconds: lastSet.durationSeconds,
+      rule: 'repeat-duration',
+    };
+  }
+  return getProgressionStrategy(config.strategy).next(lastSet, config);
+}
@@ -0,0 +1,136 @@
+import type { ProgressionConfig } from '../types/progression';
+import type { WorkoutSet } from '../types/workout';
+import { formatCycleSets, speakCycleSets, type CyclePrescription } from './programs';
+import { effectiveRpe, type ProgressionRule, type ProgressionStep, type ProgressionTarget } from './progression';
+import { formatLoad, speakLoad } from './setFormatting';
+import { formatWeight, speakWeight, type WeightUnit } from './units';
+
+// Target minus the set it was based on; null when not comparable (reps vs timed)
+export interface TargetChange {
+  weightLb: number;
+  reps: number | null;
+  durationSeconds: number | null;
+}
+
+// Why a recommendation says what it says
+export interface RecommendationRationale {
+  rule: ProgressionRule;
+  basis: WorkoutSet; // the set the target progresses from
+  sourceSets: WorkoutSet[]; // everything logged for the exercise in that workout
+  config: ProgressionConfig;
+  change: TargetChange;
+  cycle: CyclePrescription | null; // set when a program week chose the target
+}
+
+function difference(target: number | null, last: number | null): number | null {
+  return target !== null && last !== null ? target - last : null;
+}
+
+export function buildRationale(
+  basis: WorkoutSet,
+  sourceSets: WorkoutSet[],
+  target: ProgressionStep,
+  config: ProgressionConfig,
+  cycle: CyclePrescription | null = null
+): RecommendationRationale {
+  return {
+    rule: target.rule,
+    basis,
+    sourceSets,
+    config,
+    change: {
+      weightLb: target.weight - basis.weight,
+      reps: difference(target.reps, basis.reps),
+      durationSeconds: difference(target.durationSeconds, basis.durationSeconds),
+    },
+    cycle,
+  };
+}
+
+interface Wording {
+  weight: (weightLb: number, unit: WeightUnit) => string;
+  load: (set: ProgressionTarget, unit: WeightUnit) => string;
+  cycleSets: (week: CyclePrescription['week']) => string;
+}
+
+// "add 5 lbs" / "drop 10 lbs" / "keep the same weight"
+function describeWeightChange(weightLb: number, unit: WeightUnit, wording: Wording): string {
+  if (weightLb > 0) return `add ${wording.weight(weightLb, unit)}`;
+  if (weightLb < 0) return `drop ${wording.weight(-weightLb, unit)}`;
+  return 'keep the same weight';
+}
+
+function describeReason(
+  target: ProgressionTarget,
+  { rule, basis, config, change, cycle }: RecommendationRationale,
+  unit: WeightUnit,
+  wording: Wording
+): string {
+  const { repRange, targetRpe } = config;
+  const rpe = effectiveRpe(basis);
+  // Bodyweight sets under the RPE strategy adjust reps, not load
+  const effortAdjustment =
+    basis.loadType === 'bodyweight'
+      ? `aim for ${target.reps} reps`
+      : describeWeightChange(change.weightLb, unit, wording);
+
+  switch (rule) {
+    case 'add-reps':
+      return `you hit ${basis.reps} reps last time, so aim for ${target.reps}`;
+    case 'add-weight':
+      return config.strategy === 'linear'
+        ? `you hit ${basis.reps} reps last time, reaching your target of ${repRange.min}, so ${describeWeightChange(change.weightLb, unit, wording)}`
+        : `you hit ${basis.reps} reps last time, the top of your ${repRange.min} to ${repRange.max} range, so ${describeWeightChange(change.weightLb, unit, wording)} and aim for ${target.reps}`;
+    case 'repeat-weight':
+      return `you got ${basis.reps} of ${repRange.min} target reps last time, so stay at ${wording.load(target, unit)}`;
+    case 'effort-below-target':
+      return `your last set was RPE ${rpe}, easier than your target of ${targetRpe}, so ${effortAdjustment}`;
+    case 'effort-above-target':
+      return `your last set was RPE ${rpe}, harder than your target of ${targetRpe}, so ${effortAdjustment}`;
+    case 'effort-on-target':
+      return `your last set was RPE ${rpe}, right on target, so repeat it`;
+    case 'repeat-duration':
+      return `you held it for ${basis.durationSeconds} seconds last time, so repeat it`;
+    case 'cycle-week':
+    case 'cycle-deload':
+      if (!cycle) return `follow this week's program`;
+      return `${cycle.week.name}${rule === 'cycle-deload' ? ', so go light to recover' : ''}: ${wording.cycleSets(cycle.week)} of your ${wording.weight(cycle.trainingMaxLb, unit)} training max`;
+  }
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// "You hit 10 reps last time, so aim for 12"
+export function formatRecommendationReason(
+  target: ProgressionTarget,
+  rationale: RecommendationRationale,
+  unit: WeightUnit
+): string {
+  return capitalize(describeReason(target, rationale, unit, { weight: formatWeight, load: formatLoad, cycleSets: formatCycleSets }));
+}
+
+// Same reason with units spelled out, for TTS
+export function speakRecommendationReason(
+  target: ProgressionTarget,
+  rationale: RecommendationRationale,
+  unit: WeightUnit
+): string {
+  return capitalize(describeReason(target, rationale, unit, { weight: speakWeight, load: speakLoad, cycleSets: speakCycleSets }));
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : `−${Math.abs(value)}`;
+}
+
+// "+5 lbs, −4 reps" / "Same as last time"
+export function formatTargetChange(change: TargetChange, unit: WeightUnit): string {
+  const parts: string[] = [];
+  if (change.weightLb !== 0) {
+    parts.push(`${change.weightLb > 0 ? '+' : '−'}${formatWeight(Math.abs(change.weightLb), unit)}`);
+  }
+  if (change.reps) parts.push(`${signed(change.reps)} reps`);
+  if (change.durationSeconds) parts.push(`${signed(change.durationSeconds)} s`);
+  return parts.length > 0 ? parts.join(', ') : 'Same as last time';
+}
@@ -0,0 +1,19 @@
+// Longer than this and the user wasn't resting, they had stopped
+export const MAX_RECORDED_REST_SECONDS = 30 * 60;
+
+// Whole seconds, as stored with a set; null is an untimed rest
+export function isRecordableRest(seconds: number | null): boolean {
+  return seconds === null || (Number.isInteger(seconds) && seconds >= 0 && seconds <= MAX_RECORDED_REST_SECONDS);
+}
+
+// "1:05"
+export function formatRestTime(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// " · rested 1:45" after a set in a list; empty when the rest wasn't timed
+export function formatSetRest({ restSeconds }: { restSeconds?: number | null }): string {
+  // Sets queued before rests were recorded have no field at all
+  return typeof restSeconds === 'number' ? ` · rested ${formatRestTime(restSeconds)}` : '';
+}
@@ -0,0 +1,46 @@
+import type { WorkoutSet } from '../types/workout';
+import { fromPounds, spokenUnit, unitLabel, type WeightUnit } from './units';
+
+type SetAmount = Pick<WorkoutSet, 'weight' | 'loadType' | 'reps' | 'durationSeconds'>;
+
+// "90 lbs" / "BW" / "BW + 25 lbs" / "BW − 40 lbs"
+export function formatLoad({ weight, loadType }: SetAmount, unit: WeightUnit): string {
+  const value = fromPounds(Math.abs(weight), unit);
+  if (loadType === 'weighted') {
+    return `${fromPounds(weight, unit)} ${unitLabel(unit)}`;
+  }
+  if (value === 0) return 'BW';
+  return `BW ${weight > 0 ? '+' : '−'} ${value} ${unitLabel(unit)}`;
+}
+
+// "90 pounds" / "bodyweight" / "bodyweight plus 25 pounds", for TTS
+export function speakLoad({ weight, loadType }: SetAmount, unit: WeightUnit): string {
+  const value = fromPounds(Math.abs(weight), unit);
+  if (loadType === 'weighted') {
+    return `${fromPounds(weight, unit)} ${spokenUnit(unit)}`;
+  }
+  if (value === 0) return 'bodyweight';
+  return `bodyweight ${weight > 0 ? 'plus' : 'minus'} ${value} ${spokenUnit(unit)}`;
+}
+
+function isPlainBodyweight(set: SetAmount): boolean {
+  return set.loadType === 'bodyweight' && set.weight === 0;
+}
+
+// "90 lbs × 12" / "BW + 25 lbs × 8" / "60 s"
+export function formatSetSummary(set: SetAmount, unit: WeightUnit): string {
+  if (set.durationSeconds !== null) {
+    const duration = `${set.durationSeconds} s`;
+    return isPlainBodyweight(set) ? duration : `${formatLoad(set, unit)} · ${duration}`;
+  }
+  return `${formatLoad(set, unit)} × ${set.reps}`;
+}
+
+// "90 pounds for 12 reps" / "bodyweight for 8 reps" / "60 seconds"
+export function speakSetSummary(set: SetAmount, unit: WeightUnit): string {
+  if (set.durationSeconds !== null) {
+    const duration = `${set.durationSeconds} seconds`;
+    return isPlainBodyweight(set) ? duration : `${speakLoad(set, unit)} for ${duration}`;
+  }
+  return `${speakLoad(set, unit)} for ${set.reps} reps`;
+}
@@ -0,0 +1,47 @@
+import type { SetType, WorkoutSet } from '../types/workout';
+
+type SetMetadataFields = Pick<WorkoutSet, 'setType' | 'rpe' | 'rir'>;
+
+export const SET_TYPES: SetType[] = ['warmup', 'working', 'drop', 'failure'];
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: 'warm-up',
+  working: 'working',
+  drop: 'drop set',
+  failure: 'failure set',
+};
+
+export const MAX_DURATION_SECONDS = 60 * 60;
+
+export function isDurationInRange(seconds: number): boolean {
+  return Number.isInteger(seconds) && seconds >= 1 && seconds <= MAX_DURATION_SECONDS;
+}
+
+export function isValidRpe(rpe: number | null): boolean {
+  return rpe === null || (rpe >= 1 && rpe <= 10);
+}
+
+export function isValidRir(rir: number | null): boolean {
+  return rir === null || (Number.isInteger(rir) && rir >= 0 && rir <= 10);
+}
+
+// Recommendations and progress only look at sets that reflect real effort
+export function isWarmupSet(set: Pick<WorkoutSet, 'setType'>): boolean {
+  return set.setType === 'warmup';
+}
+
+// "RPE 8" / "2 in reserve" / ""
+export function describeEffort({ rpe, rir }: SetMetadataFields): string {
+  if (rpe !== null) return `RPE ${rpe}`;
+  if (rir !== null) return `${rir} in reserve`;
+  return '';
+}
+
+// " (warm-up, RPE 8)" for list rows; empty for a plain working set
+export function formatSetMetadata(set: SetMetadataFields): string {
+  const parts = [
+    set.setType !== 'working' ? SET_TYPE_LABELS[set.setType] : '',
+    describeEffort(set),
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
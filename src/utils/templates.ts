@@ -0,0 +1,48 @@
+import { DEFAULT_REST_SECONDS } from '../types/rest';
+import type { TemplateExercise } from '../types/template';
+
+// "Leg Press, 3 × 8-12, 90 s"; also accepts "x", a single rep target and no rest
+const TEMPLATE_LINE = /^(.+?)\s*,\s*(\d+)\s*[×x*]\s*(\d+)(?:\s*[-–]\s*(\d+))?(?:\s*,\s*(\d+)\s*s(?:ec(?:onds)?)?)?$/i;
+
+const MAX_TARGET_SETS = 20;
+const MAX_REPS = 50;
+const MAX_REST_SECONDS = 10 * 60;
+
+// "3 × 8–12 · 90 s rest"
+export function describeTemplateExercise({ targetSets, repRange, restSeconds }: TemplateExercise): string {
+  const reps = repRange.min === repRange.max ? `${repRange.min}` : `${repRange.min}–${repRange.max}`;
+  return `${targetSets} × ${reps} · ${restSeconds} s rest`;
+}
+
+// One exercise per line, in the format parseTemplateExercises reads
+export function formatTemplateExercises(exercises: TemplateExercise[]): string {
+  return exercises
+    .map(({ exerciseName, targetSets, repRange, restSeconds }) =>
+      `${exerciseName}, ${targetSets} × ${repRange.min}-${repRange.max}, ${restSeconds} s`
+    )
+    .join('\n');
+}
+
+// Returns the reason when a line can't be read
+export function parseTemplateExercises(text: string): TemplateExercise[] | string {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) return 'Add at least one exercise';
+
+  const exercises: TemplateExercise[] = [];
+  for (const line of lines) {
+    const match = line.match(TEMPLATE_LINE);
+    if (!match) return `Couldn't read "${line}". Use: Leg Press, 3 × 8-12, 90 s`;
+
+    const targetSets = Number(match[2]);
+    const min = Number(match[3]);
+    const max = match[4] ? Number(match[4]) : min;
+    const restSeconds = match[5] ? Number(match[5]) : DEFAULT_REST_SECONDS;
+
+    if (targetSets < 1 || targetSets > MAX_TARGET_SETS) return `${match[1]}: sets must be 1 to ${MAX_TARGET_SETS}`;
+    if (min < 1 || max > MAX_REPS || min > max) return `${match[1]}: reps must be 1 to ${MAX_REPS}, lowest first`;
+    if (restSeconds > MAX_REST_SECONDS) return `${match[1]}: rest must be at most ${MAX_REST_SECONDS} s`;
+
+    exercises.push({ exerciseName: match[1], targetSets, repRange: { min, max }, restSeconds });
+  }
+  return exercises;
+}
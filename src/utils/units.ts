@@ -0,0 +1,63 @@
+export type WeightUnit = 'lb' | 'kg';
+
+export const LB_PER_KG = 2.20462262;
+
+// Weights are stored in pounds; bounds apply to the canonical value
+export const MIN_WEIGHT_LB = 5;
+export const MAX_WEIGHT_LB = 1000;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function toPounds(value: number, unit: WeightUnit): number {
+  return unit === 'kg' ? round(value * LB_PER_KG, 2) : value;
+}
+
+export function fromPounds(weightLb: number, unit: WeightUnit): number {
+  return unit === 'kg' ? round(weightLb / LB_PER_KG, 1) : round(weightLb, 1);
+}
+
+export function isWeightInRange(value: number, unit: WeightUnit): boolean {
+  const weightLb = toPounds(value, unit);
+  // Small tolerance so 2.5 kg or 450 kg are not rejected by rounding
+  return weightLb >= MIN_WEIGHT_LB - 0.5 && weightLb <= MAX_WEIGHT_LB + 1;
+}
+
+// Load added to (or, when negative, assisting) bodyweight; zero is plain bodyweight
+export function isAddedLoadInRange(value: number, unit: WeightUnit): boolean {
+  return Math.abs(toPounds(value, unit)) <= MAX_WEIGHT_LB + 1;
+}
+
+export function weightRangeLabel(unit: WeightUnit): string {
+  return unit === 'kg'
+    ? `${fromPounds(MIN_WEIGHT_LB, 'kg')} and ${Math.round(fromPounds(MAX_WEIGHT_LB, 'kg'))} kilos`
+    : `${MIN_WEIGHT_LB} and ${MAX_WEIGHT_LB} pounds`;
+}
+
+export function unitLabel(unit: WeightUnit): string {
+  return unit === 'kg' ? 'kg' : 'lbs';
+}
+
+export function spokenUnit(unit: WeightUnit): string {
+  return unit === 'kg' ? 'kilos' : 'pounds';
+}
+
+// "180 lbs" / "81.6 kg"
+export function formatWeight(weightLb: number, unit: WeightUnit): string {
+  return `${fromPounds(weightLb, unit)} ${unitLabel(unit)}`;
+}
+
+// "180 pounds" / "81.6 kilos", for TTS
+export function speakWeight(weightLb: number, unit: WeightUnit): string {
+  return `${fromPounds(weightLb, unit)} ${spokenUnit(unit)}`;
+}
+
+export function parseWeightUnit(text: string | null | undefined): WeightUnit | null {
+  if (!text) return null;
+  const normalized = text.toLowerCase().trim();
+  if (/^(kg|kgs|kilo|kilos|kilogram|kilograms)$/.test(normalized)) return 'kg';
+  if (/^(lb|lbs|pound|pounds)$/.test(normalized)) return 'lb';
+  return null;
+}
@@ -0,0 +1,86 @@
+import type { EquipmentProfile } from '../types/equipment';
+import type { WarmupConfig, WarmupStep } from '../types/warmup';
+import { roundToLoadable, type PlateBreakdown } from './plates';
+import { formatWeight, speakWeight, type WeightUnit } from './units';
+
+export interface WarmupSet {
+  weight: number; // pounds
+  reps: number;
+  isEmptyBar: boolean;
+  plates: PlateBreakdown | null;
+}
+
+// The lightest load the equipment offers; null when there is no "bar" to start from
+function lightestLoad(profile: EquipmentProfile): number | null {
+  if (profile.method === 'plates') return profile.baseWeightLb > 0 ? profile.baseWeightLb : null;
+  if (profile.method === 'stack' || profile.method === 'dumbbells') return profile.stepLb;
+  return null;
+}
+
+// Ramp up to the working weight, rounded to loadable weights. Steps that round to
+// the same load, or to the working weight or more, are dropped.
+export function buildWarmupSets(
+  workingWeightLb: number,
+  config: WarmupConfig,
+  profile: EquipmentProfile
+): WarmupSet[] {
+  if (!config.enabled || workingWeightLb <= 0) return [];
+
+  const sets: WarmupSet[] = [];
+  for (const step of config.steps) {
+    const target = step.percent === null ? lightestLoad(profile) : (workingWeightLb * step.percent) / 100;
+    if (target === null) continue;
+
+    const { weightLb, plates } = roundToLoadable(target, profile, 'nearest');
+    const previous = sets[sets.length - 1];
+    if (weightLb >= workingWeightLb || (previous && weightLb <= previous.weight)) continue;
+
+    sets.push({
+      weight: weightLb,
+      reps: step.reps,
+      isEmptyBar: profile.method === 'plates' && plates?.perSideLb.length === 0,
+      plates,
+    });
+  }
+  return sets;
+}
+
+// "Bar × 10 · 95 lbs × 5 · 135 lbs × 3"
+export function formatWarmupSets(sets: WarmupSet[], unit: WeightUnit): string {
+  return sets
+    .map((set) => `${set.isEmptyBar ? 'Bar' : formatWeight(set.weight, unit)} × ${set.reps}`)
+    .join(' · ');
+}
+
+// "Leg Press warm-up: the empty bar for 10, 95 pounds for 5, then 135 pounds for 3."
+export function speakWarmupSets(exerciseName: string, sets: WarmupSet[], unit: WeightUnit): string {
+  const steps = sets.map(
+    (set) => `${set.isEmptyBar ? 'the empty bar' : speakWeight(set.weight, unit)} for ${set.reps}`
+  );
+  if (steps.length > 1) {
+    steps[steps.length - 1] = `then ${steps[steps.length - 1]}`;
+  }
+  return `${exerciseName} warm-up: ${steps.join(', ')}.`;
+}
+
+// "bar × 10, 50% × 5, 70% × 3"
+export function formatWarmupSteps(steps: WarmupStep[]): string {
+  return steps.map((step) => `${step.percent === null ? 'bar' : `${step.percent}%`} × ${step.reps}`).join(', ');
+}
+
+// Reads what formatWarmupSteps writes ("x" works too); null if any step doesn't parse
+export function parseWarmupSteps(text: string): WarmupStep[] | null {
+  const parts = text.split(',').map((part) => part.trim()).filter(Boolean);
+  const steps: WarmupStep[] = [];
+
+  for (const part of parts) {
+    const match = part.match(/^(bar|\d+(?:\.\d+)?)\s*%?\s*[×x*]\s*(\d+)$/i);
+    if (!match) return null;
+
+    const percent = match[1].toLowerCase() === 'bar' ? null : Number(match[1]);
+    const reps = Number(match[2]);
+    if ((percent !== null && (percent <= 0 || percent >= 100)) || reps < 1) return null;
+    steps.push({ percent, reps });
+  }
+  return steps;
+}
@@ -0,0 +1,307 @@
+import type { LoadType, SetType } from '../types/workout';
+import { detectCsvDelimiter, parseCsv } from './csv';
+import { isDurationInRange, isValidRpe } from './setMetadata';
+import { isAddedLoadInRange, isWeightInRange, type WeightUnit } from './units';
+
+export type ImportSource = 'strong' | 'hevy';
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  strong: 'Strong',
+  hevy: 'Hevy',
+};
+
+// One set as the other app recorded it; weight is in `unit`, negative when assisted
+export interface ImportedSet {
+  row: number; // 1-based record in the file, the header being row 1
+  workoutKey: string;
+  workoutName: string;
+  startedAt: string; // ISO timestamp
+  endedAt: string | null;
+  localDate: string; // YYYY-MM-DD as shown in the other app
+  exerciseName: string; // as named in the other app
+  setType: SetType;
+  loadType: LoadType;
+  weight: number;
+  unit: WeightUnit;
+  reps: number | null;
+  durationSeconds: number | null;
+  rpe: number | null;
+}
+
+export interface SkippedImportRow {
+  row: number;
+  reason: string;
+}
+
+export interface ParsedImportFile {
+  source: ImportSource;
+  sets: ImportedSet[];
+  skipped: SkippedImportRow[];
+}
+
+interface LocalDateTime {
+  date: Date;
+  localDate: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Strong: "2023-01-15 08:30:00"
+const ISO_LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+// Hevy: "15 Jan 2023, 08:30"
+const DAY_MONTH_YEAR_TIME = /^(\d{1,2}) ([a-z]{3})[a-z]* (\d{4}),? (\d{1,2}):(\d{2})$/i;
+
+// Names like "Pull Up (Assisted)" record the assistance as a positive weight
+const ASSISTED_PATTERN = /\bassist(ed)?\b/i;
+// Added load on a bodyweight movement, e.g. "Pull Up (Weighted)"
+const WEIGHTED_BODYWEIGHT_PATTERN = /\bweighted\b/i;
+
+const HEVY_SET_TYPES: Record<string, SetType> = {
+  normal: 'working',
+  warmup: 'warmup',
+  dropset: 'drop',
+  failure: 'failure',
+};
+
+const STRONG_SET_TYPES: Record<string, SetType> = {
+  W: 'warmup',
+  D: 'drop',
+  F: 'failure',
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Both apps write wall-clock time with no offset, so it is read as device-local time
+function parseLocalDateTime(value: string): LocalDateTime | null {
+  const trimmed = value.trim();
+  let parts: number[] | null = null;
+
+  const iso = trimmed.match(ISO_LOCAL_DATE_TIME);
+  if (iso) {
+    parts = [Number(iso[1]), Number(iso[2]), Number(iso[3]), Number(iso[4]), Number(iso[5]), Number(iso[6] ?? 0)];
+  }
+
+  const dayMonth = trimmed.match(DAY_MONTH_YEAR_TIME);
+  if (dayMonth) {
+    const month = MONTHS.indexOf(dayMonth[2].toLowerCase()) + 1;
+    if (month > 0) {
+      parts = [Number(dayMonth[3]), month, Number(dayMonth[1]), Number(dayMonth[4]), Number(dayMonth[5]), 0];
+    }
+  }
+
+  if (!parts) return null;
+
+  const [year, month, day, hours, minutes, seconds] = parts;
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  if (Number.isNaN(date.getTime()) || date.getMonth() !== month - 1) return null;
+
+  return { date, localDate: `${year}-${pad(month)}-${pad(day)}` };
+}
+
+// Strong durations look like "1h 5m", "45m" or "50s"
+function parseDurationSeconds(value: string): number | null {
+  const hours = value.match(/(\d+)\s*h/);
+  const minutes = value.match(/(\d+)\s*m(?!s)/);
+  const seconds = value.match(/(\d+)\s*s/);
+  if (!hours && !minutes && !seconds) return null;
+
+  return Number(hours?.[1] ?? 0) * 3600 + Number(minutes?.[1] ?? 0) * 60 + Number(seconds?.[1] ?? 0);
+}
+
+// Accepts "82.5" and, from ';'-delimited files, "82,5"; empty is null
+function parseNumber(value: string | undefined): number | null {
+  const trimmed = (value ?? '').trim().replace(',', '.');
+  if (trimmed === '') return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+interface RawSet {
+  exerciseName: string;
+  weight: number | null;
+  reps: number | null;
+  seconds: number | null;
+  rpe: number | null;
+}
+
+type SetFields = Pick<ImportedSet, 'loadType' | 'weight' | 'reps' | 'durationSeconds' | 'rpe'>;
+
+// Shared rules for both formats; returns the reason when a row can't be imported
+function toSetFields(raw: RawSet, unit: WeightUnit): SetFields | string {
+  const weight = raw.weight ?? 0;
+  const isAssisted = ASSISTED_PATTERN.test(raw.exerciseName);
+
+  let loadType: LoadType = 'weighted';
+  let load = weight;
+  if (weight === 0 || isAssisted || WEIGHTED_BODYWEIGHT_PATTERN.test(raw.exerciseName)) {
+    loadType = 'bodyweight';
+    load = isAssisted ? -Math.abs(weight) : weight;
+  }
+
+  if (loadType === 'weighted' ? !isWeightInRange(load, unit) : !isAddedLoadInRange(load, unit)) {
+    return `Weight ${weight} is out of range`;
+  }
+
+  const rpe = raw.rpe !== null && isValidRpe(raw.rpe) ? raw.rpe : null;
+
+  if (raw.reps !== null && raw.reps > 0) {
+    if (!Number.isInteger(raw.reps)) return `Reps ${raw.reps} is not a whole number`;
+    return { loadType, weight: load, reps: raw.reps, durationSeconds: null, rpe };
+  }
+
+  if (raw.seconds !== null && raw.seconds > 0) {
+    if (!isDurationInRange(raw.seconds)) return `Duration ${raw.seconds}s is out of range`;
+    return { loadType, weight: load, reps: null, durationSeconds: raw.seconds, rpe };
+  }
+
+  return 'No reps or duration (distance-only sets are not supported)';
+}
+
+type ColumnReader = (record: string[], column: string) => string;
+
+function columnReader(header: string[]): ColumnReader {
+  const indexes = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+  return (record, column) => {
+    const index = indexes.get(column.toLowerCase());
+    return index === undefined ? '' : (record[index] ?? '').trim();
+  };
+}
+
+export function detectImportSource(header: string[]): ImportSource | null {
+  const columns = new Set(header.map((name) => name.trim().toLowerCase()));
+  if (columns.has('exercise_title') && columns.has('set_index')) return 'hevy';
+  if (columns.has('exercise name') && columns.has('set order')) return 'strong';
+  return null;
+}
+
+// Strong's CSV does not say which unit the weights are in, so the caller passes it
+function parseStrongRecords(records: string[][], read: ColumnReader, unit: WeightUnit): ParsedImportFile {
+  const sets: ImportedSet[] = [];
+  const skipped: SkippedImportRow[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const setOrder = read(record, 'Set Order');
+
+    // Rest timer entries are not sets
+    if (/rest/i.test(setOrder)) return;
+
+    const started = parseLocalDateTime(read(record, 'Date'));
+    if (!started) {
+      skipped.push({ row, reason: `Unrecognized date "${read(record, 'Date')}"` });
+      return;
+    }
+
+    const exerciseName = read(record, 'Exercise Name');
+    if (!exerciseName) {
+      skipped.push({ row, reason: 'Missing exercise name' });
+      return;
+    }
+
+    const fields = toSetFields(
+      {
+        exerciseName,
+        weight: parseNumber(read(record, 'Weight')),
+        reps: parseNumber(read(record, 'Reps')),
+        seconds: parseNumber(read(record, 'Seconds')),
+        rpe: parseNumber(read(record, 'RPE')),
+      },
+      unit
+    );
+    if (typeof fields === 'string') {
+      skipped.push({ row, reason: fields });
+      return;
+    }
+
+    const duration = parseDurationSeconds(read(record, 'Duration'));
+    const workoutName = read(record, 'Workout Name');
+
+    sets.push({
+      row,
+      workoutKey: `${read(record, 'Date')}|${workoutName}`,
+      workoutName,
+      startedAt: started.date.toISOString(),
+      endedAt: duration ? new Date(started.date.getTime() + duration * 1000).toISOString() : null,
+      localDate: started.localDate,
+      exerciseName,
+      setType: STRONG_SET_TYPES[setOrder.toUpperCase()] ?? 'working',
+      unit,
+      ...fields,
+    });
+  });
+
+  return { source: 'strong', sets, skipped };
+}
+
+// Hevy names its weight column after the unit: weight_kg or weight_lbs
+function parseHevyRecords(records: string[][], read: ColumnReader, header: string[]): ParsedImportFile {
+  const sets: ImportedSet[] = [];
+  const skipped: SkippedImportRow[] = [];
+  const unit: WeightUnit = header.some((name) => name.trim().toLowerCase() === 'weight_kg') ? 'kg' : 'lb';
+  const weightColumn = unit === 'kg' ? 'weight_kg' : 'weight_lbs';
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+
+    const started = parseLocalDateTime(read(record, 'start_time'));
+    if (!started) {
+      skipped.push({ row, reason: `Unrecognized date "${read(record, 'start_time')}"` });
+      return;
+    }
+
+    const exerciseName = read(record, 'exercise_title');
+    if (!exerciseName) {
+      skipped.push({ row, reason: 'Missing exercise name' });
+      return;
+    }
+
+    const fields = toSetFields(
+      {
+        exerciseName,
+        weight: parseNumber(read(record, weightColumn)),
+        reps: parseNumber(read(record, 'reps')),
+        seconds: parseNumber(read(record, 'duration_seconds')),
+        rpe: parseNumber(read(record, 'rpe')),
+      },
+      unit
+    );
+    if (typeof fields === 'string') {
+      skipped.push({ row, reason: fields });
+      return;
+    }
+
+    const ended = parseLocalDateTime(read(record, 'end_time'));
+    const workoutName = read(record, 'title');
+
+    sets.push({
+      row,
+      workoutKey: `${read(record, 'start_time')}|${workoutName}`,
+      workoutName,
+      startedAt: started.date.toISOString(),
+      endedAt: ended ? ended.date.toISOString() : null,
+      localDate: started.localDate,
+      exerciseName,
+      setType: HEVY_SET_TYPES[read(record, 'set_type').toLowerCase()] ?? 'working',
+      unit,
+      ...fields,
+    });
+  });
+
+  return { source: 'hevy', sets, skipped };
+}
+
+export function parseImportFile(text: string, strongUnit: WeightUnit): ParsedImportFile {
+  const [header, ...records] = parseCsv(text, detectCsvDelimiter(text));
+  const source = header ? detectImportSource(header) : null;
+
+  if (!header || !source) {
+    throw new Error('Unrecognized file: expected a Strong or Hevy CSV export');
+  }
+
+  const read = columnReader(header);
+  return source === 'strong'
+    ? parseStrongRecords(records, read, strongUnit)
+    : parseHevyRecords(records, read, header);
+}
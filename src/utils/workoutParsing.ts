@@ -1,13 +1,120 @@
-export interface ParsedWorkoutSet {
+import type { LoadType, SetType } from '../types/workout';
+import { parseWeightUnit, type WeightUnit } from './units';
+
+export interface SetMetadata {
+  setType: SetType;
+  rpe: number | null;
+  rir: number | null;
+}
+
+export interface ParsedWorkoutSet extends SetMetadata {
   exerciseName: string;
-  weight: number;
-  reps: number;
+  loadType: LoadType;
+  weight: number; // in `unit`, not yet converted to pounds; added load for bodyweight sets
+  unit: WeightUnit | null; // null when not spoken; the user's preference applies
+  reps: number | null; // null for timed sets
+  durationSeconds: number | null;
+}
+
+const SET_TYPE_PATTERNS: [SetType, RegExp][] = [
+  ['warmup', /\bwarm ?ups?(?: set)?\b/],
+  ['drop', /\bdrop ?set\b/],
+  ['failure', /\b(?:(?:to|till|until) )?failure(?: set)?\b/],
+];
+
+const RPE_PATTERN = /\b(?:at )?rpe (\d+(?:\.\d+)?)\b/;
+const RIR_PATTERN = /\b(?:at |with )?(?:rir (\d+)|(\d+) (?:reps? )?in (?:reserve|the tank))\b/;
+
+// Pulls "warm-up", "drop set", "to failure", "at RPE 8" and "2 in reserve" out of
+// a normalized phrase, leaving the exercise, weight and reps for the main pattern
+export function extractSetMetadata(text: string): SetMetadata & { rest: string } {
+  let rest = text;
+  let setType: SetType = 'working';
+
+  for (const [type, pattern] of SET_TYPE_PATTERNS) {
+    if (pattern.test(rest)) {
+      setType = type;
+      rest = rest.replace(pattern, ' ');
+      break;
+    }
+  }
+
+  const rpeMatch = rest.match(RPE_PATTERN);
+  rest = rest.replace(RPE_PATTERN, ' ');
+
+  const rirMatch = rest.match(RIR_PATTERN);
+  rest = rest.replace(RIR_PATTERN, ' ');
+
+  return {
+    setType,
+    rpe: rpeMatch ? Number(rpeMatch[1]) : null,
+    rir: rirMatch ? Number(rirMatch[1] ?? rirMatch[2]) : null,
+    rest: rest.replace(/\s+/g, ' ').trim(),
+  };
+}
+
+type ParsedAmount = Omit<ParsedWorkoutSet, keyof SetMetadata>;
+
+// "plank 60 seconds", "farmer carry 40 kg for 1 minute"
+const TIMED_SET = /^(?<exercise>[a-z ]+?)\s+(?:(?<weight>\d+(?:\.\d+)?)\s*(?<unit>lbs?|pounds?|kgs?|kilos?|kilograms?)\s+)?(?:for\s+)?(?<duration>\d+)\s*(?<durationUnit>seconds?|secs?|s|minutes?|mins?)$/;
+
+// "pull ups bodyweight for 8", "pull ups plus 25 for 8", "assisted dips minus 40 for 10"
+const BODYWEIGHT_SET = /^(?<exercise>[a-z ]+?)\s+(?:(?<bodyweight>body ?weight|bw)\s*)?(?:(?<sign>plus|minus|\+|-)\s*(?<load>\d+(?:\.\d+)?)\s*(?<unit>lbs?|pounds?|kgs?|kilos?|kilograms?)?\s*)?(?:for|x)?\s*(?<reps>\d+)\s*(?:reps)?$/;
+
+// "leg press 180 for 10"
+const WEIGHTED_SET = /^(?<exercise>[a-z ]+?)\s+(?<weight>\d+(?:\.\d+)?)\s*(?<unit>lbs?|pounds?|kgs?|kilos?|kilograms?)?\s*(?:for|x)?\s*(?<reps>\d+)\s*(?:reps)?$/;
+
+function parseTimedSet(text: string): ParsedAmount | null {
+  const groups = text.match(TIMED_SET)?.groups;
+  if (!groups) return null;
+
+  const duration = Number(groups.duration);
+  return {
+    exerciseName: groups.exercise.trim(),
+    loadType: groups.weight ? 'weighted' : 'bodyweight',
+    weight: groups.weight ? Number(groups.weight) : 0,
+    unit: parseWeightUnit(groups.unit),
+    reps: null,
+    durationSeconds: groups.durationUnit.startsWith('m') ? duration * 60 : duration,
+  };
+}
+
+function parseBodyweightSet(text: string): ParsedAmount | null {
+  const groups = text.match(BODYWEIGHT_SET)?.groups;
+  if (!groups || (!groups.bodyweight && !groups.sign)) return null;
+
+  const load = groups.load ? Number(groups.load) : 0;
+  return {
+    // The load's sign already says it; "assisted dips" is logged as "dips"
+    exerciseName: groups.exercise.replace(/^(?:assisted|weighted) /, '').trim(),
+    loadType: 'bodyweight',
+    weight: groups.sign === 'minus' || groups.sign === '-' ? -load : load,
+    unit: parseWeightUnit(groups.unit),
+    reps: Number(groups.reps),
+    durationSeconds: null,
+  };
+}
+
+function parseWeightedSet(text: string): ParsedAmount | null {
+  const groups = text.match(WEIGHTED_SET)?.groups;
+  if (!groups) return null;
+
+  return {
+    exerciseName: groups.exercise.trim(),
+    loadType: 'weighted',
+    weight: Number(groups.weight),
+    unit: parseWeightUnit(groups.unit),
+    reps: Number(groups.reps),
+    durationSeconds: null,
+  };
 }
 
 export function parseWorkoutSet(raw: string): ParsedWorkoutSet | null {
   const text = raw
     .toLowerCase()
-    .replace(/[.,]/g, ' ')
+    .replace(/([a-z])-([a-z])/g, '$1 $2') // "warm-up"
+    .replace(/,/g, ' ')
+    .replace(/\.(?!\d)/g, ' ') // keep decimal points like 82.5
     .replace(/\s+/g, ' ')
     .trim();
 
@@ -17,16 +124,35 @@ export function parseWorkoutSet(raw: string): ParsedWorkoutSet | null {
     return null;
   }
 
-  const re = /^(?<exercise>[a-z ]+?)\s+(?<weight>\d+(?:\.\d+)?)\s*(?:lbs|pounds)?\s*(?:for|x)?\s*(?<reps>\d+)\s*(?:reps)?$/i;
-  const match = text.match(re);
-  
-  if (!match?.groups) return null;
+  const { rest, ...metadata } = extractSetMetadata(text);
+  const set = parseTimedSet(rest) ?? parseBodyweightSet(rest) ?? parseWeightedSet(rest);
 
-  return {
-    exerciseName: match.groups.exercise.trim(),
-    weight: Number(match.groups.weight),
-    reps: Number(match.groups.reps),
-  };
+  return set ? { ...set, ...metadata } : null;
+}
+
+export type VoiceCommand = 'undo_last_set' | 'whats_next';
+
+export function parseVoiceCommand(raw: string): VoiceCommand | null {
+  const text = raw
+    .toLowerCase()
+    .replace(/[.,!?]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (
+    /^(undo|undo that)$/.test(text) ||
+    /\b(undo|delete|remove|scratch)\b.*\b(last|previous)\b(\s+set)?/.test(text)
+  ) {
+    return 'undo_last_set';
+  }
+  if (
+    /^next( up)?$/.test(text) ||
+    /\bwhat(s| is|'s)? (next|left)\b/.test(text) ||
+    /\bhow many sets\b/.test(text)
+  ) {
+    return 'whats_next';
+  }
+  return null;
 }
 
 export function normalizeYesNo(text: string): 'yes' | 'no' | 'unknown' {
@@ -0,0 +1,7 @@
+-- Idempotency key for sets synced from the on-device write queue.
+-- Retried uploads upsert on client_id instead of inserting duplicates.
+alter table workout_sets
+  add column if not exists client_id uuid;
+
+create unique index if not exists workout_sets_client_id_key
+  on workout_sets (client_id);
@@ -0,0 +1,19 @@
+-- Workout sessions: one row per workout, sets link to it.
+-- Ids are generated on the device so sessions can be created offline.
+create table if not exists workout_sessions (
+  id uuid primary key,
+  started_at timestamptz not null,
+  ended_at timestamptz,
+  notes text,
+  status text not null default 'active' check (status in ('active', 'completed')),
+  user_id uuid
+);
+
+create index if not exists workout_sessions_started_at_idx
+  on workout_sessions (started_at desc);
+
+alter table workout_sets
+  add column if not exists session_id uuid references workout_sessions (id) on delete set null;
+
+create index if not exists workout_sets_session_id_idx
+  on workout_sets (session_id);
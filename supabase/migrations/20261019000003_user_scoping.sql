@@ -0,0 +1,28 @@
+-- Scope workout data to the signed-in user (email magic link or anonymous).
+-- Anonymous sign-ins must be enabled in the project's auth settings.
+alter table workout_sets
+  alter column user_id set default auth.uid();
+
+alter table workout_sessions
+  alter column user_id set default auth.uid();
+
+create index if not exists workout_sets_user_id_date_idx
+  on workout_sets (user_id, date);
+
+create index if not exists workout_sessions_user_id_started_at_idx
+  on workout_sessions (user_id, started_at desc);
+
+alter table workout_sets enable row level security;
+alter table workout_sessions enable row level security;
+
+drop policy if exists "Users manage their own sets" on workout_sets;
+create policy "Users manage their own sets" on workout_sets
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users manage their own sessions" on workout_sessions;
+create policy "Users manage their own sessions" on workout_sessions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
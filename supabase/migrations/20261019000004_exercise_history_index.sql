@@ -0,0 +1,3 @@
+-- Supports per-exercise history lookups, newest first.
+create index if not exists workout_sets_user_exercise_date_idx
+  on workout_sets (user_id, exercise_name, date desc, id desc);
@@ -0,0 +1,58 @@
+-- Canonical exercise catalog. Rows with a null user_id are the built-in list
+-- (kept in sync with src/data/defaultExercises.ts); users can add their own.
+create table if not exists exercises (
+  id text primary key,
+  name text not null,
+  aliases text[] not null default '{}',
+  equipment text check (equipment in ('barbell', 'dumbbell', 'machine', 'cable', 'bodyweight', 'other')),
+  muscle_groups text[] not null default '{}',
+  user_id uuid default auth.uid()
+);
+
+alter table exercises enable row level security;
+
+drop policy if exists "Everyone reads built-in and own exercises" on exercises;
+create policy "Everyone reads built-in and own exercises" on exercises
+  for select to authenticated
+  using (user_id is null or user_id = auth.uid());
+
+drop policy if exists "Users manage their own exercises" on exercises;
+create policy "Users manage their own exercises" on exercises
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+insert into exercises (id, name, aliases, equipment, muscle_groups) values
+  ('leg-press', 'Leg Press', array['Sled Press']::text[], 'machine', array['quads', 'glutes']::text[]),
+  ('leg-extension', 'Leg Extension', array['Quad Extension']::text[], 'machine', array['quads']::text[]),
+  ('hamstring-curl', 'Hamstring Curl', array['Leg Curl', 'Lying Leg Curl', 'Seated Leg Curl']::text[], 'machine', array['hamstrings']::text[]),
+  ('calf-raise', 'Calf Raise', array['Standing Calf Raise', 'Seated Calf Raise']::text[], 'machine', array['calves']::text[]),
+  ('squat', 'Squat', array['Back Squat', 'Barbell Squat']::text[], 'barbell', array['quads', 'glutes']::text[]),
+  ('bench-press', 'Bench Press', array['Bench', 'Barbell Bench Press', 'Flat Bench']::text[], 'barbell', array['chest', 'triceps']::text[]),
+  ('deadlift', 'Deadlift', array['Conventional Deadlift']::text[], 'barbell', array['hamstrings', 'glutes', 'back']::text[]),
+  ('romanian-deadlift', 'Romanian Deadlift', array['RDL', 'Stiff Leg Deadlift']::text[], 'barbell', array['hamstrings', 'glutes']::text[]),
+  ('overhead-press', 'Overhead Press', array['Shoulder Press', 'Military Press', 'OHP']::text[], 'barbell', array['shoulders', 'triceps']::text[]),
+  ('barbell-row', 'Barbell Row', array['Bent Over Row', 'Row']::text[], 'barbell', array['back', 'biceps']::text[]),
+  ('lat-pulldown', 'Lat Pulldown', array['Pulldown', 'Lat Pull Down']::text[], 'cable', array['back', 'biceps']::text[]),
+  ('seated-cable-row', 'Seated Cable Row', array['Cable Row', 'Seated Row']::text[], 'cable', array['back', 'biceps']::text[]),
+  ('pull-up', 'Pull-Up', array['Pullup', 'Chin-Up', 'Chinup']::text[], 'bodyweight', array['back', 'biceps']::text[]),
+  ('dip', 'Dip', array['Parallel Bar Dip', 'Tricep Dip']::text[], 'bodyweight', array['chest', 'triceps']::text[]),
+  ('bicep-curl', 'Bicep Curl', array['Biceps Curl', 'Curl', 'Dumbbell Curl']::text[], 'dumbbell', array['biceps']::text[]),
+  ('tricep-pushdown', 'Tricep Pushdown', array['Triceps Pushdown', 'Cable Pushdown']::text[], 'cable', array['triceps']::text[]),
+  ('lateral-raise', 'Lateral Raise', array['Side Raise', 'Side Lateral Raise']::text[], 'dumbbell', array['shoulders']::text[]),
+  ('chest-fly', 'Chest Fly', array['Pec Fly', 'Pec Deck', 'Dumbbell Fly']::text[], 'machine', array['chest']::text[]),
+  ('lunge', 'Lunge', array['Walking Lunge', 'Dumbbell Lunge']::text[], 'dumbbell', array['quads', 'glutes']::text[]),
+  ('hip-thrust', 'Hip Thrust', array['Barbell Hip Thrust', 'Glute Bridge']::text[], 'barbell', array['glutes']::text[]),
+  ('plank', 'Plank', array['Front Plank']::text[], 'bodyweight', array['core']::text[])
+on conflict (id) do nothing;
+
+alter table workout_sets
+  add column if not exists exercise_id text references exercises (id) on delete set null;
+
+-- Link existing sets whose name matches a built-in exercise
+update workout_sets s
+set exercise_id = e.id
+from exercises e
+where s.exercise_id is null
+  and e.user_id is null
+  and lower(s.exercise_name) = lower(e.name);
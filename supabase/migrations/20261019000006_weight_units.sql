@@ -0,0 +1,8 @@
+-- Weight is stored in pounds; weight_unit records what the user logged it in.
+-- Kilogram conversions need decimals.
+alter table workout_sets
+  alter column weight type numeric(7, 2);
+
+alter table workout_sets
+  add column if not exists weight_unit text not null default 'lb'
+  check (weight_unit in ('lb', 'kg'));
@@ -0,0 +1,10 @@
+-- Set type and optional effort ratings. Existing sets count as working sets.
+alter table workout_sets
+  add column if not exists set_type text not null default 'working'
+  check (set_type in ('warmup', 'working', 'drop', 'failure'));
+
+alter table workout_sets
+  add column if not exists rpe numeric(3, 1) check (rpe between 1 and 10);
+
+alter table workout_sets
+  add column if not exists rir smallint check (rir between 0 and 10);
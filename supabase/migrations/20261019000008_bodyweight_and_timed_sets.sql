@@ -0,0 +1,15 @@
+-- Bodyweight sets store added load in weight (negative when assisted).
+-- Timed sets record a duration instead of reps.
+alter table workout_sets
+  add column if not exists load_type text not null default 'weighted'
+  check (load_type in ('weighted', 'bodyweight'));
+
+alter table workout_sets
+  add column if not exists duration_seconds integer check (duration_seconds > 0);
+
+alter table workout_sets
+  alter column reps drop not null;
+
+alter table workout_sets
+  add constraint workout_sets_reps_or_duration
+  check (reps is not null or duration_seconds is not null);
@@ -0,0 +1,85 @@
+-- Set numbers are assigned by the database on insert, so two devices (or a
+-- stale client snapshot) can never hand out the same number twice.
+
+-- Close any duplicates left by client-side numbering before enforcing uniqueness.
+with ranked as (
+  select id,
+         row_number() over (
+           partition by user_id, coalesce(session_id::text, date::text), exercise_name
+           order by set_number, id
+         ) as next_number
+  from workout_sets
+)
+update workout_sets s
+set set_number = ranked.next_number
+from ranked
+where s.id = ranked.id
+  and s.set_number <> ranked.next_number;
+
+create unique index if not exists workout_sets_session_set_number_key
+  on workout_sets (user_id, session_id, exercise_name, set_number)
+  where session_id is not null;
+
+-- Sets logged before sessions existed are numbered per date
+create unique index if not exists workout_sets_date_set_number_key
+  on workout_sets (user_id, date, exercise_name, set_number)
+  where session_id is null;
+
+-- Inserts a set with the next number for its exercise in the same workout.
+-- A retried upload with a known client_id returns the row saved the first time.
+create or replace function log_workout_set(p_set jsonb)
+returns workout_sets
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_input workout_sets := jsonb_populate_record(null::workout_sets, p_set);
+  v_saved workout_sets;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in';
+  end if;
+
+  if v_input.client_id is not null then
+    select * into v_saved
+    from workout_sets
+    where client_id = v_input.client_id and user_id = v_user_id;
+
+    if found then
+      return v_saved;
+    end if;
+  end if;
+
+  -- Serializes numbering for one exercise in one workout
+  perform pg_advisory_xact_lock(hashtext(
+    v_user_id::text || coalesce(v_input.session_id::text, v_input.date::text) || v_input.exercise_name
+  ));
+
+  insert into workout_sets (
+    date, exercise_name, exercise_id, weight, weight_unit, load_type, reps,
+    duration_seconds, set_type, rpe, rir, user_id, client_id, session_id, set_number
+  )
+  values (
+    v_input.date, v_input.exercise_name, v_input.exercise_id, v_input.weight,
+    coalesce(v_input.weight_unit, 'lb'), coalesce(v_input.load_type, 'weighted'), v_input.reps,
+    v_input.duration_seconds, coalesce(v_input.set_type, 'working'), v_input.rpe, v_input.rir,
+    v_user_id, v_input.client_id, v_input.session_id,
+    (
+      select coalesce(max(set_number), 0) + 1
+      from workout_sets
+      where user_id = v_user_id
+        and exercise_name = v_input.exercise_name
+        and (
+          (v_input.session_id is not null and session_id = v_input.session_id)
+          or (v_input.session_id is null and session_id is null and date = v_input.date)
+        )
+    )
+  )
+  returning * into v_saved;
+
+  return v_saved;
+end;
+$$;
+
+grant execute on function log_workout_set(jsonb) to authenticated;
@@ -0,0 +1,83 @@
+-- Each set records when it was logged (UTC); its date is the session's local
+-- date, fixed when the workout starts, so a workout past midnight keeps one date.
+alter table workout_sets
+  add column if not exists logged_at timestamptz;
+
+update workout_sets
+set logged_at = date::timestamptz
+where logged_at is null;
+
+alter table workout_sets
+  alter column logged_at set default now(),
+  alter column logged_at set not null;
+
+alter table workout_sessions
+  add column if not exists local_date date;
+
+update workout_sessions
+set local_date = (started_at at time zone 'utc')::date
+where local_date is null;
+
+alter table workout_sessions
+  alter column local_date set default current_date,
+  alter column local_date set not null;
+
+create index if not exists workout_sessions_user_id_local_date_idx
+  on workout_sessions (user_id, local_date desc);
+
+-- Same as before, now keeping the device's logged_at
+create or replace function log_workout_set(p_set jsonb)
+returns workout_sets
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_input workout_sets := jsonb_populate_record(null::workout_sets, p_set);
+  v_saved workout_sets;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in';
+  end if;
+
+  if v_input.client_id is not null then
+    select * into v_saved
+    from workout_sets
+    where client_id = v_input.client_id and user_id = v_user_id;
+
+    if found then
+      return v_saved;
+    end if;
+  end if;
+
+  -- Serializes numbering for one exercise in one workout
+  perform pg_advisory_xact_lock(hashtext(
+    v_user_id::text || coalesce(v_input.session_id::text, v_input.date::text) || v_input.exercise_name
+  ));
+
+  insert into workout_sets (
+    date, logged_at, exercise_name, exercise_id, weight, weight_unit, load_type, reps,
+    duration_seconds, set_type, rpe, rir, user_id, client_id, session_id, set_number
+  )
+  values (
+    v_input.date, coalesce(v_input.logged_at, now()), v_input.exercise_name, v_input.exercise_id, v_input.weight,
+    coalesce(v_input.weight_unit, 'lb'), coalesce(v_input.load_type, 'weighted'), v_input.reps,
+    v_input.duration_seconds, coalesce(v_input.set_type, 'working'), v_input.rpe, v_input.rir,
+    v_user_id, v_input.client_id, v_input.session_id,
+    (
+      select coalesce(max(set_number), 0) + 1
+      from workout_sets
+      where user_id = v_user_id
+        and exercise_name = v_input.exercise_name
+        and (
+          (v_input.session_id is not null and session_id = v_input.session_id)
+          or (v_input.session_id is null and session_id is null and date = v_input.date)
+        )
+    )
+  )
+  returning * into v_saved;
+
+  return v_saved;
+end;
+$$;
+
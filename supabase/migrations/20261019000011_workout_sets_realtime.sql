@@ -0,0 +1,14 @@
+-- Stream workout_sets changes so other devices (e.g. a coach's tablet) see
+-- the session live. Row level security limits each subscriber to its own rows.
+alter table workout_sets replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'workout_sets'
+  ) then
+    alter publication supabase_realtime add table workout_sets;
+  end if;
+end
+$$;
@@ -0,0 +1,8 @@
+-- The template a workout was started from, and a copy of its plan as it was
+-- then, so editing a template later doesn't rewrite past workouts.
+alter table workout_sessions
+  add column if not exists template_id text,
+  add column if not exists plan jsonb;
+
+create index if not exists workout_sessions_user_id_template_id_idx
+  on workout_sessions (user_id, template_id, started_at desc);
@@ -0,0 +1,62 @@
+-- How long the user actually rested before each set, measured by the rest timer
+-- on the device. Null for sets logged without a timer running (or imported).
+alter table workout_sets
+  add column if not exists rest_seconds integer
+    check (rest_seconds is null or rest_seconds >= 0);
+
+-- Same as before, now keeping the set's rest
+create or replace function log_workout_set(p_set jsonb)
+returns workout_sets
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_input workout_sets := jsonb_populate_record(null::workout_sets, p_set);
+  v_saved workout_sets;
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in';
+  end if;
+
+  if v_input.client_id is not null then
+    select * into v_saved
+    from workout_sets
+    where client_id = v_input.client_id and user_id = v_user_id;
+
+    if found then
+      return v_saved;
+    end if;
+  end if;
+
+  -- Serializes numbering for one exercise in one workout
+  perform pg_advisory_xact_lock(hashtext(
+    v_user_id::text || coalesce(v_input.session_id::text, v_input.date::text) || v_input.exercise_name
+  ));
+
+  insert into workout_sets (
+    date, logged_at, exercise_name, exercise_id, weight, weight_unit, load_type, reps,
+    duration_seconds, set_type, rpe, rir, rest_seconds, user_id, client_id, session_id, set_number
+  )
+  values (
+    v_input.date, coalesce(v_input.logged_at, now()), v_input.exercise_name, v_input.exercise_id, v_input.weight,
+    coalesce(v_input.weight_unit, 'lb'), coalesce(v_input.load_type, 'weighted'), v_input.reps,
+    v_input.duration_seconds, coalesce(v_input.set_type, 'working'), v_input.rpe, v_input.rir,
+    v_input.rest_seconds, v_user_id, v_input.client_id, v_input.session_id,
+    (
+      select coalesce(max(set_number), 0) + 1
+      from workout_sets
+      where user_id = v_user_id
+        and exercise_name = v_input.exercise_name
+        and (
+          (v_input.session_id is not null and session_id = v_input.session_id)
+          or (v_input.session_id is null and session_id is null and date = v_input.date)
+        )
+    )
+  )
+  returning * into v_saved;
+
+  return v_saved;
+end;
+$$;
+
@@ -0,0 +1,24 @@
+-- Rows logged before accounts existed have no user_id, and the row level security
+-- enabled in *_user_scoping.sql hides them from everyone. On a project with a
+-- single account they are given to it. Otherwise assign them by hand, e.g.:
+--
+--   update workout_sessions set user_id = '<owner user id>' where user_id is null;
+--   update workout_sets set user_id = '<owner user id>' where user_id is null;
+do $$
+declare
+  v_owner uuid;
+begin
+  if not exists (select 1 from workout_sets where user_id is null)
+     and not exists (select 1 from workout_sessions where user_id is null) then
+    return;
+  end if;
+
+  if (select count(*) from auth.users) = 1 then
+    select id into v_owner from auth.users;
+    update workout_sessions set user_id = v_owner where user_id is null;
+    update workout_sets set user_id = v_owner where user_id is null;
+  else
+    raise notice 'Workout rows without a user_id stay hidden by row level security; '
+      'assign them an owner by hand (see 20261019000014_backfill_user_ids.sql)';
+  end if;
+end $$;